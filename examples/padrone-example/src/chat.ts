@@ -154,9 +154,5 @@ export const chatProgram = createPadrone('chat')
 
 // Run the CLI if this file is executed directly
 if (import.meta.main) {
-  try {
-    await chatProgram.cli();
-  } catch {
-    // Error handling
-  }
+  await chatProgram.cliAsync(undefined, { exitOnError: true });
 }
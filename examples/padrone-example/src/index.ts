@@ -98,6 +98,4 @@ export const program = createPadrone('example')
   )
   .command('noop', (c) => c.action());
 
-try {
-  await program.cli();
-} catch {}
+await program.cliAsync(undefined, { exitOnError: true });
@@ -0,0 +1,75 @@
+/**
+ * Cancellation of a single command run: an abort signal linked to an optional outer signal,
+ * and the cleanup hooks registered by the action that run when the signal is aborted.
+ */
+export type PadroneAbortScope = {
+  signal: AbortSignal;
+  abort: (reason?: unknown) => void;
+  /** Registers a cleanup hook. It runs right away if the run has already been aborted. */
+  onAbort: (cleanup: () => unknown) => void;
+  /** Resolves when the cleanup hooks have finished, or right away if the run has not been aborted. */
+  cleanup: () => Promise<void>;
+  /** Stops following the outer signal. */
+  dispose: () => void;
+};
+
+/**
+ * Creates the abort scope of a command run.
+ * Cleanup hooks run in reverse order of registration, one after the other, and their errors are reported without stopping the others.
+ */
+export function createAbortScope(outerSignal?: AbortSignal): PadroneAbortScope {
+  const controller = new AbortController();
+  const cleanups: (() => unknown)[] = [];
+  let cleanupDone: Promise<void> | undefined;
+
+  const runCleanup = async (cleanup: () => unknown) => {
+    try {
+      await cleanup();
+    } catch (error) {
+      console.error(error);
+    }
+  };
+
+  controller.signal.addEventListener('abort', () => {
+    cleanupDone = (async () => {
+      while (cleanups.length) await runCleanup(cleanups.pop()!);
+    })();
+  });
+
+  const abortFromOuter = () => controller.abort(outerSignal?.reason);
+  if (outerSignal?.aborted) abortFromOuter();
+  else outerSignal?.addEventListener('abort', abortFromOuter);
+
+  return {
+    signal: controller.signal,
+    abort: (reason) => controller.abort(reason),
+    onAbort: (cleanup) => {
+      if (!controller.signal.aborted) cleanups.push(cleanup);
+      else cleanupDone = Promise.all([cleanupDone, runCleanup(cleanup)]).then(() => {});
+    },
+    cleanup: () => cleanupDone ?? Promise.resolve(),
+    dispose: () => outerSignal?.removeEventListener('abort', abortFromOuter),
+  };
+}
+
+/**
+ * Aborts a run when the process receives SIGINT or SIGTERM, and exits right away when it receives a second one.
+ * Returns a function that removes the listeners.
+ */
+export function abortOnProcessSignals(scope: PadroneAbortScope): () => void {
+  if (typeof process === 'undefined' || typeof process.on !== 'function') return () => {};
+
+  const signals = { SIGINT: 130, SIGTERM: 143 } as const;
+  const listeners = Object.entries(signals).map(([name, exitCode]) => {
+    const listener = () => {
+      if (scope.signal.aborted) process.exit(exitCode);
+      scope.abort(new Error(`Received ${name}`));
+    };
+    process.on(name, listener);
+    return () => process.off(name, listener);
+  });
+
+  return () => {
+    for (const remove of listeners) remove();
+  };
+}
@@ -26,7 +26,22 @@ export type Colorizer = {
   deprecated: (text: string) => string;
 };
 
-export function createColorizer(): Colorizer {
+export function createColorizer(enabled = true): Colorizer {
+  if (!enabled) {
+    const plain = (text: string) => text;
+    return {
+      command: plain,
+      option: plain,
+      type: plain,
+      description: plain,
+      label: plain,
+      meta: plain,
+      example: plain,
+      exampleValue: plain,
+      deprecated: plain,
+    };
+  }
+
   return {
     command: (text: string) => `${colors.cyan}${colors.bold}${text}${colors.reset}`,
     option: (text: string) => `${colors.green}${text}${colors.reset}`,
@@ -39,3 +54,16 @@ export function createColorizer(): Colorizer {
     deprecated: (text: string) => `${colors.strikethrough}${colors.gray}${text}${colors.reset}`,
   };
 }
+
+/**
+ * Whether ANSI colors should be used when writing to the given stream.
+ * Colors are disabled by `NO_COLOR`, in CI, and when the stream is not a TTY.
+ */
+export function supportsColor(stream?: { isTTY?: boolean }): boolean {
+  if (typeof process === 'undefined') return false;
+  if (process.env.NO_COLOR) return false;
+  if (process.env.CI) return false;
+  const target = stream ?? process.stdout;
+  if (target && typeof target.isTTY === 'boolean') return target.isTTY;
+  return false;
+}
@@ -1,3 +1,4 @@
+import { findExternalCommands } from './external.ts';
 import { extractSchemaMetadata } from './options.ts';
 import type { AnyPadroneCommand } from './types.ts';
 
@@ -60,33 +61,30 @@ function collectAllCommands(cmd: AnyPadroneCommand): AnyPadroneCommand[] {
   return result;
 }
 
+type CompletionOption = { name: string; alias?: string; isBoolean: boolean; conflicts: string[] };
+
 /**
- * Extracts all option names from a command's schema.
+ * Extracts all option names from a command's schema, with the options they conflict with.
  */
-function extractOptions(cmd: AnyPadroneCommand): { name: string; alias?: string; isBoolean: boolean }[] {
-  const options: { name: string; alias?: string; isBoolean: boolean }[] = [];
+function extractOptions(cmd: AnyPadroneCommand): CompletionOption[] {
+  const options: CompletionOption[] = [];
 
   if (!cmd.options) return options;
 
   try {
     const optionsMeta = cmd.meta?.options;
-    const { aliases } = extractSchemaMetadata(cmd.options, optionsMeta);
-
-    // Reverse aliases map (alias -> option name)
-    const aliasToOption: Record<string, string> = {};
-    for (const [opt, alias] of Object.entries(aliases)) {
-      aliasToOption[alias] = opt;
-    }
+    const { aliases, conflicts } = extractSchemaMetadata(cmd.options, optionsMeta);
 
     const jsonSchema = cmd.options['~standard'].jsonSchema.input({ target: 'draft-2020-12' }) as Record<string, any>;
 
     if (jsonSchema.type === 'object' && jsonSchema.properties) {
       for (const [key, prop] of Object.entries(jsonSchema.properties as Record<string, any>)) {
-        const alias = Object.entries(aliases).find(([opt]) => opt === key)?.[1];
+        const alias = Object.entries(aliases).find(([, opt]) => opt === key)?.[0];
         options.push({
           name: key,
           alias: alias,
           isBoolean: prop?.type === 'boolean',
+          conflicts: conflicts[key] ?? [],
         });
       }
     }
@@ -97,27 +95,120 @@ function extractOptions(cmd: AnyPadroneCommand): { name: string; alias?: string;
   return options;
 }
 
+/**
+ * Extracts the global options that a command inherits from its parents, nearest parent first.
+ * Options that the command defines itself are left out, since they take precedence.
+ */
+function extractGlobalOptions(cmd: AnyPadroneCommand): CompletionOption[] {
+  const options: CompletionOption[] = [];
+  const seen = new Set(extractOptions(cmd).map((opt) => opt.name));
+
+  for (let parent = cmd.parent; parent; parent = parent.parent) {
+    if (!parent.options) continue;
+    const { globals } = extractSchemaMetadata(parent.options, parent.meta?.options);
+    for (const opt of extractOptions(parent)) {
+      if (!globals.has(opt.name) || seen.has(opt.name)) continue;
+      seen.add(opt.name);
+      options.push(opt);
+    }
+  }
+
+  return options;
+}
+
+/**
+ * The ways an option can be spelled on the command line, e.g. `--force` and `-f`.
+ */
+function spellOption(options: CompletionOption[], name: string): string[] {
+  const alias = options.find((opt) => opt.name === name)?.alias;
+  return alias ? [`--${name}`, `-${alias}`] : [`--${name}`];
+}
+
+/**
+ * Lists the flags of the plugins of a program that are offered for every command, e.g. `--help`.
+ */
+function getPluginFlags(program: AnyPadroneCommand): { name: string; description: string }[] {
+  return (program.plugins ?? []).flatMap((plugin) =>
+    Object.entries(plugin.flags ?? {}).flatMap(([name, flag]) => (flag.description ? [{ name, description: flag.description }] : [])),
+  );
+}
+
+/**
+ * Completes the last word of a line typed in a REPL: the names of the subcommands of the command selected by the previous words,
+ * or the options of that command and the global options of its parents when the word starts with a dash,
+ * leaving out the options that conflict with the ones on the line.
+ * @param builtins - Extra names to complete in place of the first word, e.g. the built-in commands of the REPL
+ * @returns The completions and the word they complete, as expected by the `completer` of `node:readline`
+ */
+export function completeLine(program: AnyPadroneCommand, line: string, builtins: string[] = []): [string[], string] {
+  const words = line.trimStart().split(/\s+/);
+  const word = words.pop() ?? '';
+
+  let command = program;
+  for (const term of words) {
+    const found = command.commands?.find((cmd) => !cmd.hidden && (cmd.name === term || cmd.aliases?.includes(term)));
+    if (found) command = found;
+  }
+
+  const options = [...extractOptions(command), ...extractGlobalOptions(command)];
+  const used = options.filter((opt) => spellOption(options, opt.name).some((spelling) => words.includes(spelling)));
+  const excluded = new Set(used.flatMap((opt) => opt.conflicts));
+
+  const candidates = word.startsWith('-')
+    ? [
+        ...getPluginFlags(program).map((flag) => `--${flag.name}`),
+        ...options.filter((opt) => !excluded.has(opt.name)).flatMap((opt) => spellOption(options, opt.name)),
+      ]
+    : [
+        ...(command.commands ?? []).filter((cmd) => !cmd.hidden).map((cmd) => cmd.name),
+        ...findExternalCommands(command).map((external) => external.name),
+        ...(words.length ? [] : builtins),
+      ];
+
+  return [candidates.filter((candidate) => candidate.startsWith(word)), word];
+}
+
 /**
  * Generates a Bash completion script for the program.
  */
 export function generateBashCompletion(program: AnyPadroneCommand): string {
   const programName = program.name;
   const commands = collectAllCommands(program);
-  const commandNames = commands.map((c) => c.name).join(' ');
+  // External commands are the ones on the PATH when the script is generated
+  const commandNames = [...commands, ...findExternalCommands(program)].map((c) => c.name).join(' ');
 
   // Collect all options from all commands
-  const allOptions = new Set<string>();
-  allOptions.add('--help');
-  allOptions.add('--version');
+  const allOptions = new Set<string>(getPluginFlags(program).map((flag) => `--${flag.name}`));
+
+  // Options that are hidden once an option they conflict with is on the command line
+  const conflictCases: string[] = [];
 
   for (const cmd of [program, ...commands]) {
-    for (const opt of extractOptions(cmd)) {
+    const options = extractOptions(cmd);
+    for (const opt of options) {
       allOptions.add(`--${opt.name}`);
       if (opt.alias) allOptions.add(`-${opt.alias}`);
+
+      if (!opt.conflicts.length) continue;
+      const hidden = opt.conflicts.flatMap((name) => spellOption(options, name));
+      const removals = hidden.map((spelling) => `options="\${options// ${spelling} / }"`).join('; ');
+      conflictCases.push(`        ${spellOption(options, opt.name).join('|')}) ${removals} ;;`);
     }
   }
 
   const optionsList = Array.from(allOptions).join(' ');
+  const hideConflicts = conflictCases.length
+    ? `
+    # Hide options that conflict with the ones already on the command line
+    options=" $options "
+    local word
+    for word in "\${words[@]}"; do
+      case "$word" in
+${conflictCases.join('\n')}
+      esac
+    done
+`
+    : '';
 
   return `###-begin-${programName}-completion-###
 #
@@ -142,7 +233,7 @@ if type complete &>/dev/null; then
 
     local commands="${commandNames}"
     local options="${optionsList}"
-
+${hideConflicts}
     # Complete options when current word starts with -
     if [[ "$cur" == -* ]]; then
       COMPREPLY=($(compgen -W "$options" -- "$cur"))
@@ -158,7 +249,7 @@ elif type compdef &>/dev/null; then
     local si=$IFS
     local commands="${commandNames}"
     local options="${optionsList}"
-
+${hideConflicts}
     if [[ "\${words[CURRENT]}" == -* ]]; then
       compadd -- \${=options}
     else
@@ -190,32 +281,41 @@ export function generateZshCompletion(program: AnyPadroneCommand): string {
   const programName = program.name;
   const commands = collectAllCommands(program);
 
-  // Generate command completions with descriptions
-  const commandCompletions = commands
-    .map((cmd) => {
-      const desc = cmd.description || cmd.title || '';
+  // Generate command completions with descriptions, describing external commands by their executable
+  const commandCompletions = [
+    ...commands.map((cmd) => ({ name: cmd.name, desc: cmd.description || cmd.title || '' })),
+    ...findExternalCommands(program).map((external) => ({ name: external.name, desc: external.file })),
+  ]
+    .map(({ name, desc }) => {
       const escapedDesc = desc.replace(/'/g, "'\\''").replace(/:/g, '\\:');
-      return `      '${cmd.name}:${escapedDesc}'`;
+      return `      '${name}:${escapedDesc}'`;
     })
     .join('\n');
 
   // Collect all options with descriptions
-  const optionCompletions: string[] = [];
-  optionCompletions.push("      '--help[Show help information]'");
-  optionCompletions.push("      '--version[Show version number]'");
+  const pluginFlags = getPluginFlags(program);
+  const optionCompletions = pluginFlags.map((flag) => {
+    const escapedDesc = flag.description.replace(/'/g, "'\\''").replace(/\[/g, '\\[').replace(/\]/g, '\\]');
+    return `      '--${flag.name}[${escapedDesc}]'`;
+  });
 
-  const seenOptions = new Set<string>(['help', 'version']);
+  const seenOptions = new Set<string>(pluginFlags.map((flag) => flag.name));
 
   for (const cmd of [program, ...commands]) {
-    for (const opt of extractOptions(cmd)) {
+    const options = extractOptions(cmd);
+    for (const opt of options) {
       if (seenOptions.has(opt.name)) continue;
       seenOptions.add(opt.name);
 
       const desc = cmd.meta?.options?.[opt.name]?.description || '';
       const escapedDesc = desc.replace(/'/g, "'\\''").replace(/\[/g, '\\[').replace(/\]/g, '\\]');
+      // An exclusion list hides the conflicting options once this one is on the command line
+      const exclusions = opt.conflicts.length ? `'(${opt.conflicts.flatMap((name) => spellOption(options, name)).join(' ')})'` : '';
 
       if (opt.alias) {
-        optionCompletions.push(`      {-${opt.alias},--${opt.name}}'[${escapedDesc}]'`);
+        optionCompletions.push(`      ${exclusions}{-${opt.alias},--${opt.name}}'[${escapedDesc}]'`);
+      } else if (exclusions) {
+        optionCompletions.push(`      ${exclusions}'--${opt.name}[${escapedDesc}]'`);
       } else {
         optionCompletions.push(`      '--${opt.name}[${escapedDesc}]'`);
       }
@@ -280,31 +380,44 @@ export function generateFishCompletion(program: AnyPadroneCommand): string {
     '# Commands',
   ];
 
-  for (const cmd of commands) {
-    const desc = cmd.description || cmd.title || '';
+  const commandDescriptions = [
+    ...commands.map((cmd) => ({ name: cmd.name, desc: cmd.description || cmd.title || '' })),
+    ...findExternalCommands(program).map((external) => ({ name: external.name, desc: external.file })),
+  ];
+  for (const { name, desc } of commandDescriptions) {
     const escapedDesc = desc.replace(/'/g, "\\'");
-    lines.push(`complete -c ${programName} -n "__fish_use_subcommand" -a "${cmd.name}" -d '${escapedDesc}'`);
+    lines.push(`complete -c ${programName} -n "__fish_use_subcommand" -a "${name}" -d '${escapedDesc}'`);
   }
 
   lines.push('');
   lines.push('# Global options');
-  lines.push(`complete -c ${programName} -l help -d 'Show help information'`);
-  lines.push(`complete -c ${programName} -l version -d 'Show version number'`);
+  const pluginFlags = getPluginFlags(program);
+  for (const flag of pluginFlags) {
+    const escapedDesc = flag.description.replace(/'/g, "\\'");
+    lines.push(`complete -c ${programName} -l ${flag.name} -d '${escapedDesc}'`);
+  }
 
-  const seenOptions = new Set<string>(['help', 'version']);
+  const seenOptions = new Set<string>(pluginFlags.map((flag) => flag.name));
 
   for (const cmd of [program, ...commands]) {
-    for (const opt of extractOptions(cmd)) {
+    const options = extractOptions(cmd);
+    for (const opt of options) {
       if (seenOptions.has(opt.name)) continue;
       seenOptions.add(opt.name);
 
       const desc = cmd.meta?.options?.[opt.name]?.description || '';
       const escapedDesc = desc.replace(/'/g, "\\'");
+      // The option is not offered once an option it conflicts with is on the command line
+      const seenArguments = opt.conflicts.flatMap((name) => {
+        const alias = options.find((o) => o.name === name)?.alias;
+        return alias ? [`-l ${name}`, `-s ${alias}`] : [`-l ${name}`];
+      });
+      const condition = seenArguments.length ? ` -n "not __fish_seen_argument ${seenArguments.join(' ')}"` : '';
 
       if (opt.alias) {
-        lines.push(`complete -c ${programName} -s ${opt.alias} -l ${opt.name} -d '${escapedDesc}'`);
+        lines.push(`complete -c ${programName}${condition} -s ${opt.alias} -l ${opt.name} -d '${escapedDesc}'`);
       } else {
-        lines.push(`complete -c ${programName} -l ${opt.name} -d '${escapedDesc}'`);
+        lines.push(`complete -c ${programName}${condition} -l ${opt.name} -d '${escapedDesc}'`);
       }
     }
   }
@@ -321,7 +434,10 @@ export function generatePowerShellCompletion(program: AnyPadroneCommand): string
   const programName = program.name;
   const commands = collectAllCommands(program);
 
-  const commandNames = commands.map((c) => `'${c.name}'`).join(', ');
+  const commandNames = [...commands, ...findExternalCommands(program)].map((c) => `'${c.name}'`).join(', ');
+  const optionNames = getPluginFlags(program)
+    .map((flag) => `'--${flag.name}'`)
+    .join(', ');
 
   return `###-begin-${programName}-completion-###
 #
@@ -334,7 +450,7 @@ Register-ArgumentCompleter -Native -CommandName ${programName} -ScriptBlock {
   param($wordToComplete, $commandAst, $cursorPosition)
 
   $commands = @(${commandNames})
-  $options = @('--help', '--version')
+  $options = @(${optionNames})
 
   if ($wordToComplete -like '-*') {
     $options | Where-Object { $_ -like "$wordToComplete*" } | ForEach-Object {
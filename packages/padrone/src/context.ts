@@ -0,0 +1,40 @@
+import type { AnyPadroneCommand, PadroneActionContext } from './types.ts';
+
+/**
+ * Details of a command run that are passed to the action in its context.
+ */
+export type PadroneRunDetails = Partial<
+  Pick<PadroneActionContext, 'argv' | 'parentOptions' | 'env' | 'config' | 'signal' | 'onAbort' | 'session'>
+>;
+
+/**
+ * Creates the services registered with `.context()` on a command and its ancestors, starting from the root.
+ * Each factory receives the services created for the parent commands, and injected services take precedence at each level.
+ */
+function createServices(command: AnyPadroneCommand, injected: object): object {
+  const inherited = command.parent ? createServices(command.parent, injected) : injected;
+  return command.context ? { ...inherited, ...command.context(inherited), ...injected } : inherited;
+}
+
+/**
+ * Creates the context passed to the action of a command.
+ * @param services - Services that take precedence over the registered ones, e.g. test doubles
+ */
+export function createActionContext(
+  command: AnyPadroneCommand,
+  details: PadroneRunDetails = {},
+  services: object = {},
+): PadroneActionContext {
+  return {
+    ...createServices(command, services),
+    command,
+    argv: details.argv ?? [],
+    parentOptions: details.parentOptions ?? {},
+    env: details.env,
+    config: details.config,
+    // Runs without an abort scope cannot be aborted, so their cleanup hooks never run
+    signal: details.signal ?? new AbortController().signal,
+    onAbort: details.onAbort ?? (() => {}),
+    session: details.session ?? {},
+  };
+}
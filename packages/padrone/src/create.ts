@@ -1,22 +1,145 @@
+import type { StandardSchemaV1 } from '@standard-schema/spec';
 import type { Schema } from 'ai';
+import { abortOnProcessSignals, createAbortScope } from './abort.ts';
+import { createColorizer, supportsColor } from './colorizer.ts';
 import { generateCompletionOutput, type ShellType } from './completion.ts';
+import { createActionContext, type PadroneRunDetails } from './context.ts';
+import {
+  PadroneAbortError,
+  PadroneActionError,
+  PadroneApprovalError,
+  PadroneConfigError,
+  PadroneEnvError,
+  PadroneError,
+  PadroneExitCode,
+  PadroneMissingHandlerError,
+  PadroneStrictError,
+  PadroneUnknownCommandError,
+  PadroneUnknownFlagError,
+  PadroneValidationError,
+} from './errors.ts';
+import { findExternalCommand, runExternalCommand } from './external.ts';
 import { generateHelp } from './help.ts';
-import { extractSchemaMetadata, parsePositionalConfig, preprocessOptions } from './options.ts';
-import { parseCliInputToParts } from './parse.ts';
-import type { AnyPadroneCommand, AnyPadroneProgram, PadroneAPI, PadroneCommand, PadroneCommandBuilder, PadroneProgram } from './types.ts';
-import { findConfigFile, getVersion, loadConfigFile } from './utils.ts';
+import { confirmApproval, needsApproval, promptForMissingOptions } from './interactive.ts';
+import { runWithMiddleware } from './middleware.ts';
+import {
+  applyImpliedOptions,
+  checkOptionGroups,
+  checkOptionRelations,
+  expandShortFlagCluster,
+  extractSchemaMetadata,
+  parseOptionGroups,
+  parsePositionalConfig,
+  preprocessOptions,
+} from './options.ts';
+import { type ParsePart, parseCliInputToParts, tokenizeInput } from './parse.ts';
+import {
+  builtinPlugins,
+  configurePlugin,
+  findPluginConfigFile,
+  findPluginRunFlag,
+  formatPluginOutput,
+  installPlugin,
+  isApprovedByPlugins,
+  isPluginCommand,
+  type PluginFlagPart,
+  runPlugins,
+} from './plugins.ts';
+import { canPrompt, createPrompter, type PadronePrompter } from './prompt.ts';
+import { createReplSession } from './repl.ts';
+import { findSimilar, type PadroneSuggestion } from './suggestions.ts';
+import type {
+  AnyPadroneCommand,
+  AnyPadroneProgram,
+  PadroneAPI,
+  PadroneCliOptions,
+  PadroneCommand,
+  PadroneCommandBuilder,
+  PadroneCommandConfig,
+  PadroneCommandModule,
+  PadroneLazyLoader,
+  PadroneParseOptions,
+  PadronePlugin,
+  PadroneProgram,
+  PadroneProgramOptions,
+} from './types.ts';
+import { findConfigFile, isThenable, loadConfigFile, type MaybePromise, thenMaybe } from './utils.ts';
+import { describeOptionIssues, formatValidationReport } from './validation.ts';
 
 const commandSymbol = Symbol('padrone_command');
 
 const noop = <TRes>() => undefined as TRes;
 
-export function createPadrone<TName extends string>(name: TName): PadroneProgram<TName> {
-  return createPadroneCommandBuilder({ name, path: '', commands: [] } as PadroneCommand<TName>) as unknown as PadroneProgram<TName>;
+/**
+ * Returns the raw argv array from the current process, without the runtime and script paths.
+ * The array is kept as-is so that the shell's quoting is preserved.
+ */
+const getProcessArgv = (): string[] | undefined => (typeof process !== 'undefined' ? process.argv.slice(2) : undefined);
+
+export function createPadrone<TName extends string>(name: TName, options: PadroneProgramOptions = {}): PadroneProgram<TName> {
+  const externalCommands =
+    typeof options.externalCommands === 'string' ? options.externalCommands : options.externalCommands ? `${name}-` : undefined;
+  return createPadroneCommandBuilder({
+    name,
+    path: '',
+    commands: [],
+    externalCommands,
+    plugins: builtinPlugins,
+  } as PadroneCommand<TName>) as unknown as PadroneProgram<TName>;
+}
+
+/**
+ * Marks a loader as the module of a lazy command, e.g. `command('deploy', lazy(() => import('./deploy.ts')))`.
+ */
+export function lazy<TModule>(loader: () => Promise<TModule>): PadroneLazyLoader<TModule> {
+  return { '~lazy': loader };
+}
+
+/**
+ * Global options found while parsing, along with the parent command that declares each of them.
+ */
+type ParsedGlobalOptions = { options: Record<string, unknown>; owners: Map<string, AnyPadroneCommand> };
+
+/**
+ * Copies a command and its subcommands at any depth under a new parent and name, for a program mounted as a subcommand.
+ * The copy is written to `target` when given, which keeps the references of other commands to it.
+ */
+function remountCommand(
+  command: AnyPadroneCommand,
+  parent: AnyPadroneCommand,
+  name: string,
+  aliases: string[] | undefined,
+  target = {} as AnyPadroneCommand,
+): AnyPadroneCommand {
+  const path = parent.path ? `${parent.path} ${name}` : name;
+  const mounted = Object.assign(target, { ...command, name, path, aliases, parent });
+  mounted.commands = command.commands?.map((cmd) => remountCommand(cmd, mounted, cmd.name, cmd.aliases));
+
+  // A lazy command is loaded where it was defined, then copied again to pick up what the loader added
+  const { load } = command;
+  if (load) {
+    mounted.load = () =>
+      load().then(() => {
+        remountCommand(command, mounted.parent ?? parent, name, aliases, mounted);
+        delete mounted.load;
+      });
+  }
+  return mounted;
+}
+
+/**
+ * Makes a command the parent of its subcommands. Every builder method copies the command, so the subcommands are adopted
+ * by each copy in turn, and inherit the middleware, global options and services of the parent registered after them too.
+ */
+function adoptCommands(command: AnyPadroneCommand) {
+  for (const cmd of command.commands ?? []) cmd.parent = command;
 }
 
 export function createPadroneCommandBuilder<TBuilder extends PadroneProgram = PadroneProgram>(
   existingCommand: AnyPadroneCommand,
 ): TBuilder & { [commandSymbol]: AnyPadroneCommand } {
+  adoptCommands(existingCommand);
+
   function findCommandByName(name: string, commands?: AnyPadroneCommand[]): AnyPadroneCommand | undefined {
     if (!commands) return undefined;
 
@@ -52,16 +175,233 @@ export function createPadroneCommandBuilder<TBuilder extends PadroneProgram = Pa
   };
 
   /**
-   * Parses CLI input to find the command and extract raw options without validation.
+   * Reads the option names, aliases and value kinds from a command's options schema.
+   */
+  const getOptionsShape = (command: AnyPadroneCommand) => {
+    const { aliases, counters, globals } = command.options
+      ? extractSchemaMetadata(command.options, command.meta?.options)
+      : { aliases: {} as Record<string, string>, counters: new Set<string>(), globals: new Set<string>() };
+
+    // Get array and boolean options from schema (arrays are always variadic)
+    const propertyNames = new Set<string>();
+    const arrayOptions = new Set<string>();
+    const booleanOptions = new Set<string>();
+    let hasKnownProperties = !command.options;
+    if (command.options) {
+      try {
+        const jsonSchema = command.options['~standard'].jsonSchema.input({ target: 'draft-2020-12' }) as Record<string, any>;
+        if (jsonSchema.type === 'object' && jsonSchema.properties) {
+          hasKnownProperties = true;
+          for (const [key, prop] of Object.entries(jsonSchema.properties as Record<string, any>)) {
+            propertyNames.add(key);
+            if (prop?.type === 'array') arrayOptions.add(key);
+            if (prop?.type === 'boolean') booleanOptions.add(key);
+          }
+        }
+      } catch {
+        // Ignore schema parsing errors
+      }
+    }
+
+    return { aliases, counters, globals, propertyNames, arrayOptions, booleanOptions, hasKnownProperties };
+  };
+
+  /**
+   * Reads the options a command accepts on the command line: its own, and the global options of its parents.
+   * Global options are accepted unless the command defines an option with the same name,
+   * and the nearest parent wins when several parents declare the same global option.
+   */
+  const getInputShape = (command: AnyPadroneCommand) => {
+    const shape = getOptionsShape(command);
+    const { aliases, counters, propertyNames, arrayOptions, booleanOptions } = shape;
+
+    const globalOwners = new Map<string, AnyPadroneCommand>();
+    for (let parent = command.parent; parent; parent = parent.parent) {
+      const parentShape = getOptionsShape(parent);
+      for (const key of parentShape.globals) {
+        if (globalOwners.has(key) || propertyNames.has(key)) continue;
+        globalOwners.set(key, parent);
+        propertyNames.add(key);
+        if (parentShape.arrayOptions.has(key)) arrayOptions.add(key);
+        if (parentShape.booleanOptions.has(key)) booleanOptions.add(key);
+        if (parentShape.counters.has(key)) counters.add(key);
+      }
+      for (const [alias, key] of Object.entries(parentShape.aliases)) {
+        if (globalOwners.get(key) === parent && !(alias in aliases)) aliases[alias] = key;
+      }
+    }
+
+    // Flags (booleans and counters) never take a value from the next part of the input
+    const flagOptions = new Set([...booleanOptions, ...counters]);
+    // Options of the command take precedence over the flags of plugins spelled the same way, e.g. its own -o
+    const owns = (part: PluginFlagPart) =>
+      part.type === 'option' ? propertyNames.has(part.key) : !!aliases[part.key] || propertyNames.has(part.key);
+    return { ...shape, globalOwners, flagOptions, owns };
+  };
+
+  /**
+   * Finds the plugin flag that an option of the input is spelled as, unless the command defines an option spelled the same way.
    */
-  const parseCommand = (input: string | undefined) => {
-    input ??= typeof process !== 'undefined' ? (process.argv.slice(2).join(' ') as any) : undefined;
-    if (!input) return { command: existingCommand, rawOptions: {} as Record<string, unknown>, args: [] as string[] };
+  const findPluginFlag = (shape: ReturnType<typeof getInputShape>, part: PluginFlagPart) =>
+    shape.owns(part) ? undefined : findPluginRunFlag(existingCommand, part);
 
+  /**
+   * Tells whether an option of the input never takes the next part as its value: a flag, a cluster of short flags
+   * that ends with a flag or has an attached value, or a plugin flag without a value, e.g. `--yes`.
+   */
+  const isValuelessOption = (shape: ReturnType<typeof getInputShape>, part: PluginFlagPart): boolean => {
+    const { aliases, propertyNames, flagOptions } = shape;
+    const pluginFlag = findPluginFlag(shape, part);
+    if (pluginFlag) return !!pluginFlag.boolean;
+    if (part.type === 'option') return flagOptions.has(part.key);
+
+    const key = aliases[part.key] ?? (propertyNames.has(part.key) ? part.key : undefined);
+    if (key) return flagOptions.has(key);
+    const resolveShortFlag = (flag: string) => aliases[flag] ?? (propertyNames.has(flag) ? flag : undefined);
+    const cluster = expandShortFlagCluster(part.key, resolveShortFlag, flagOptions);
+    if (!cluster || cluster.unknownFlag) return false;
+    return cluster.attachedValue !== undefined || flagOptions.has(cluster.flags.at(-1)!);
+  };
+
+  /**
+   * Splits CLI input into parts like `parseCliInputToParts`, giving back the values that flags took from the next part
+   * as terms or arguments. Which options are flags depends on the command, so the input is walked along the commands it selects:
+   * `app --verbose deploy` runs `deploy` with the global `--verbose` flag, rather than passing `deploy` as its value.
+   */
+  const parseInputParts = (input: string | string[]): ParsePart[] => {
     const parts = parseCliInputToParts(input);
 
+    let command: AnyPadroneCommand = existingCommand;
+    let shape: ReturnType<typeof getInputShape> | undefined;
+    let matching = true;
+    let firstTerm = true;
+
+    for (let i = 0; i < parts.length; i++) {
+      const part = parts[i]!;
+      if (part.type === 'term') {
+        // The first term is skipped when it is the program name
+        const isProgramName = firstTerm && part.value === existingCommand.name;
+        firstTerm = false;
+        if (isProgramName || !matching) continue;
+        const found = findCommandByName(part.value, command.commands);
+        if (found) {
+          command = found;
+          shape = undefined;
+        } else {
+          matching = false;
+        }
+      } else if ((part.type === 'option' || part.type === 'alias') && typeof part.value === 'string' && !part.inline) {
+        shape ??= getInputShape(command);
+        if (!isValuelessOption(shape, part)) continue;
+        const value = part.value;
+        part.value = undefined;
+        parts.splice(i + 1, 0, /^[a-zA-Z0-9_-]+$/.test(value) ? { type: 'term', value } : { type: 'arg', value });
+      }
+    }
+
+    return parts;
+  };
+
+  /**
+   * Loads a lazy command, and the lazy commands among its subcommands at any depth when `deep` is set.
+   */
+  const loadCommands = (command: AnyPadroneCommand, deep = false): MaybePromise<void> =>
+    thenMaybe(command.load?.(), () => {
+      if (!deep) return;
+      const loading = (command.commands ?? []).map((cmd) => loadCommands(cmd, true)).filter(isThenable);
+      if (loading.length) return Promise.all(loading).then(() => {});
+    });
+
+  /**
+   * Lets the plugins of the program find and load its commands.
+   */
+  const pluginTools = {
+    find: (command: string) => findCommandByName(command, existingCommand.commands),
+    load: (command: AnyPadroneCommand) => loadCommands(command, true),
+  };
+
+  /**
+   * Tells whether a command runs its default subcommand, given the terms of the input left after its name:
+   * when there are none, or when it has no action of its own to take them as positional arguments.
+   */
+  const runsDefaultCommand = (
+    command: AnyPadroneCommand,
+    unmatchedTerms: string[],
+  ): command is AnyPadroneCommand & { defaultCommand: string } => !!command.defaultCommand && (!unmatchedTerms.length || !command.handler);
+
+  /**
+   * Walks the commands selected by the terms of CLI input, including default subcommands, like `parseCommand`.
+   * The walk stops at the first lazy command that is not loaded yet, since its subcommands are not known.
+   */
+  const selectCommand = (terms: string[]): AnyPadroneCommand => {
+    let command = existingCommand;
+    let i = 0;
+    for (; i < terms.length; i++) {
+      const found = findCommandByName(terms[i]!, command.commands);
+      if (!found) break;
+      command = found;
+      if (command.load) return command;
+    }
+    while (runsDefaultCommand(command, terms.slice(i))) {
+      const found = findCommandByName(command.defaultCommand, command.commands);
+      if (!found) break;
+      command = found;
+      if (command.load) return command;
+    }
+    return command;
+  };
+
+  /**
+   * Loads the lazy commands selected by CLI input, including default subcommands, so that the input can be parsed.
+   * Runs synchronously when there is nothing to load.
+   */
+  const loadSelectedCommands = (input: string | string[] | undefined): MaybePromise<void> => {
+    input ??= getProcessArgv();
+    if (!input) return;
+
+    const terms = parseInputParts(input)
+      .filter((p) => p.type === 'term')
+      .map((p) => p.value);
+    if (terms[0] === existingCommand.name) terms.shift();
+    // `help <command>` shows the help of a command, which needs it loaded just like running it
+    if (isPluginCommand(existingCommand, terms[0], pluginTools.find)) terms.shift();
+
+    const command = selectCommand(terms);
+    // Loading adds the subcommands of the loaded command, so the input is walked again
+    if (command.load) return command.load().then(() => loadSelectedCommands(input));
+  };
+
+  /**
+   * Finds the command selected by CLI input, including default subcommands, without parsing its options.
+   * Unlike `parseCommand`, the walk stops at the first term that is not a subcommand instead of throwing.
+   */
+  const findSelectedCommand = (input: string | string[]): AnyPadroneCommand => {
+    const terms = parseInputParts(input)
+      .filter((p) => p.type === 'term')
+      .map((p) => p.value);
+    if (terms[0] === existingCommand.name) terms.shift();
+    return selectCommand(terms);
+  };
+
+  /**
+   * Parses CLI input to find the command and extract raw options without validation.
+   */
+  const parseCommand = (input: string | string[] | undefined) => {
+    input ??= getProcessArgv();
+    if (!input)
+      return {
+        command: existingCommand,
+        rawOptions: {} as Record<string, unknown>,
+        args: [] as string[],
+        unknownOptions: [],
+        suggestions: [] as PadroneSuggestion[],
+        globals: undefined,
+      };
+
+    const parts = parseInputParts(input);
+
     const terms = parts.filter((p) => p.type === 'term').map((p) => p.value);
-    const args = parts.filter((p) => p.type === 'arg').map((p) => p.value);
+    const unmatchedTerms: string[] = [];
 
     let curCommand: AnyPadroneCommand | undefined = existingCommand;
 
@@ -75,41 +415,147 @@ export function createPadroneCommandBuilder<TBuilder extends PadroneProgram = Pa
       if (found) {
         curCommand = found;
       } else {
-        args.unshift(...terms.slice(i));
+        unmatchedTerms.push(...terms.slice(i));
         break;
       }
     }
 
-    if (!curCommand) return { command: existingCommand, rawOptions: {} as Record<string, unknown>, args };
+    if (!curCommand)
+      return {
+        command: existingCommand,
+        rawOptions: {} as Record<string, unknown>,
+        args: unmatchedTerms,
+        unknownOptions: [],
+        suggestions: [] as PadroneSuggestion[],
+        globals: undefined,
+      };
+
+    // An unknown subcommand runs an external command when there is one, or goes to the fallback otherwise,
+    // with the input from its name onward, which is not parsed any further
+    const external = unmatchedTerms[0] ? findExternalCommand(curCommand, unmatchedTerms[0]) : undefined;
+    const fallback: AnyPadroneCommand['fallback'] = external
+      ? (args, context) => runExternalCommand(external, args.slice(1), context)
+      : curCommand.fallback;
+    if (unmatchedTerms.length && fallback) {
+      const tokens = Array.isArray(input) ? [...input] : tokenizeInput(input.trim());
+      if (tokens[0] === existingCommand.name) tokens.shift();
+      const matchedTerms = terms.slice(0, terms.length - unmatchedTerms.length);
+      let matched = 0;
+      const start = tokens.findIndex((token) => {
+        if (matched === matchedTerms.length) return token === unmatchedTerms[0];
+        if (token === matchedTerms[matched]) matched++;
+        return false;
+      });
+      const fallbackArgs = tokens.slice(start);
+      const fallbackCommand: AnyPadroneCommand = {
+        name: unmatchedTerms[0]!,
+        path: [curCommand.path, unmatchedTerms[0]].filter(Boolean).join(' '),
+        parent: curCommand,
+        handler: (_, context) => fallback(fallbackArgs, context),
+        '~types': {} as AnyPadroneCommand['~types'],
+      };
+      return {
+        command: fallbackCommand,
+        rawOptions: {} as Record<string, unknown>,
+        args: [] as string[],
+        unknownOptions: [],
+        suggestions: [] as PadroneSuggestion[],
+        globals: undefined,
+        isFallback: true,
+      };
+    }
 
-    // Extract option metadata from the nested options object in meta
-    const optionsMeta = curCommand.meta?.options;
-    const schemaMetadata = curCommand.options ? extractSchemaMetadata(curCommand.options, optionsMeta) : { aliases: {} };
-    const { aliases } = schemaMetadata;
+    // A command run without a subcommand runs its default subcommand, e.g. `remote` runs `remote list`,
+    // and so does a command without an action given a term that is not a subcommand, e.g. `remote origin` runs `remote list origin`
+    const unmatchedIn = curCommand;
+    while (runsDefaultCommand(curCommand, unmatchedTerms)) {
+      const defaultCommand = findCommandByName(curCommand.defaultCommand, curCommand.commands);
+      if (!defaultCommand) throw new PadroneUnknownCommandError([curCommand.path, curCommand.defaultCommand].filter(Boolean).join(' '));
+      curCommand = defaultCommand;
+    }
 
-    // Get array options from schema (arrays are always variadic)
-    const arrayOptions = new Set<string>();
-    if (curCommand.options) {
-      try {
-        const jsonSchema = curCommand.options['~standard'].jsonSchema.input({ target: 'draft-2020-12' }) as Record<string, any>;
-        if (jsonSchema.type === 'object' && jsonSchema.properties) {
-          for (const [key, prop] of Object.entries(jsonSchema.properties as Record<string, any>)) {
-            if (prop?.type === 'array') arrayOptions.add(key);
-          }
+    // Global options of parent commands are accepted too
+    const shape = getInputShape(curCommand);
+    const { aliases, counters, propertyNames, arrayOptions, hasKnownProperties, globalOwners, flagOptions } = shape;
+
+    // Resolve options in order, expanding POSIX short flag clusters (-abc, -ofile.txt) using the known aliases.
+    // A value taken from the next part that is not needed by a cluster or a flag (a boolean or a counter) is given back as a positional argument.
+    // Long options are suggested for a cluster with an unknown letter, which is likely a long option typed with a single dash.
+    const resolveShortFlag = (flag: string) => aliases[flag] ?? (propertyNames.has(flag) ? flag : undefined);
+    const opts: { key: string; value?: string | string[]; negated?: boolean }[] = [];
+    const args: string[] = [...unmatchedTerms];
+    const literalArgs: string[] = [];
+    // Options not in the schema, as spelled on the command line (used by strict mode)
+    const unknownOptions: string[] = [];
+    const isUnknown = (key: string) => hasKnownProperties && !propertyNames.has(key);
+
+    const pushOption = (key: string, value: string | string[] | undefined, inline?: boolean, negated?: boolean) => {
+      if (flagOptions.has(key) && !inline && typeof value === 'string') {
+        args.push(value);
+        value = undefined;
+      }
+      opts.push({ key, value, negated });
+    };
+
+    for (const part of parts) {
+      if (part.type === 'arg') {
+        if (part.literal) literalArgs.push(part.value);
+        else args.push(part.value);
+      } else if ((part.type === 'option' || part.type === 'alias') && findPluginFlag(shape, part)) {
+        // Flags read by plugins while the command runs, e.g. --output, are not options of the command.
+        // parseInputParts already gave back the next part when the flag takes no value.
+      } else if (part.type === 'option') {
+        if (isUnknown(part.key)) unknownOptions.push(part.negated ? `--no-${part.key}` : `--${part.key}`);
+        pushOption(part.key, part.value, part.inline, part.negated);
+      } else if (part.type === 'alias') {
+        const cluster =
+          aliases[part.key] || propertyNames.has(part.key) ? undefined : expandShortFlagCluster(part.key, resolveShortFlag, flagOptions);
+        if (!cluster) {
+          if (isUnknown(aliases[part.key] || part.key)) unknownOptions.push(`-${part.key}`);
+          pushOption(aliases[part.key] || part.key, part.value, part.inline);
+          continue;
+        }
+        if (cluster.unknownFlag) {
+          const candidates = [...propertyNames].map((name): [string, string] => [name, `--${name}`]);
+          const similar = findSimilar(part.key, candidates);
+          const suggestions: PadroneSuggestion[] = similar.length ? [{ type: 'option', input: `-${part.key}`, suggestions: similar }] : [];
+          throw new PadroneUnknownFlagError(curCommand.path, `-${cluster.unknownFlag}`, `-${part.key}`, suggestions);
+        }
+
+        const lastFlag = cluster.flags.pop()!;
+        for (const flag of cluster.flags) opts.push({ key: flag });
+
+        if (cluster.attachedValue === undefined) {
+          pushOption(lastFlag, part.value, part.inline);
+        } else if (part.inline && typeof part.value === 'string') {
+          opts.push({ key: lastFlag, value: `${cluster.attachedValue}=${part.value}` });
+        } else {
+          opts.push({ key: lastFlag, value: cluster.attachedValue });
+          if (typeof part.value === 'string' && !part.inline) args.push(part.value);
         }
-      } catch {
-        // Ignore schema parsing errors
       }
     }
 
-    const opts = parts.filter((p) => p.type === 'option' || p.type === 'alias');
+    // Arguments after `--` go to the passthrough option if configured, otherwise they are positional
+    const passthrough = curCommand.meta?.passthrough;
+    if (!passthrough) args.push(...literalArgs);
+
     const rawOptions: Record<string, unknown> = {};
 
     for (const opt of opts) {
-      const key = opt.type === 'alias' ? aliases[opt.key] || opt.key : opt.key;
+      const key = opt.key;
+
+      // Handle counted options - each occurrence increments the count, an explicit value sets it (--verbose=2)
+      if (counters.has(key)) {
+        const current = typeof rawOptions[key] === 'number' ? rawOptions[key] : 0;
+        if (opt.negated) rawOptions[key] = 0;
+        else if (typeof opt.value === 'string') rawOptions[key] = Number(opt.value);
+        else rawOptions[key] = current + 1;
+        continue;
+      }
 
       // Handle negated boolean options (--no-verbose)
-      if (opt.type === 'option' && opt.negated) {
+      if (opt.negated) {
         rawOptions[key] = false;
         continue;
       }
@@ -141,7 +587,55 @@ export function createPadroneCommandBuilder<TBuilder extends PadroneProgram = Pa
       }
     }
 
-    return { command: curCommand, rawOptions, args };
+    if (passthrough && literalArgs.length > 0) {
+      const existing = rawOptions[passthrough];
+      rawOptions[passthrough] = [...(Array.isArray(existing) ? existing : existing !== undefined ? [existing] : []), ...literalArgs];
+    }
+
+    // Suggest close matches for an unmatched subcommand and for unknown options
+    const suggestions: PadroneSuggestion[] = [];
+    const unknownTerm = unmatchedTerms[0];
+    if (unknownTerm && unmatchedIn.commands?.length) {
+      const candidates = unmatchedIn.commands
+        .filter((cmd) => !cmd.hidden)
+        .flatMap((cmd) => [cmd.name, ...(cmd.aliases ?? [])])
+        .map((name): [string, string] => [name, name]);
+      const similar = findSimilar(unknownTerm, candidates);
+      if (similar.length) suggestions.push({ type: 'command', input: unknownTerm, suggestions: similar });
+    }
+    // A term left over by a command without an action is an unknown subcommand, unless it is the command of a plugin, e.g. `help`
+    const isPluginTerm = curCommand === existingCommand && isPluginCommand(existingCommand, unknownTerm, pluginTools.find);
+    if (unknownTerm && !curCommand.handler && !isPluginTerm) {
+      const path = [curCommand.path, unknownTerm].filter(Boolean).join(' ');
+      throw new PadroneUnknownCommandError(path, suggestions);
+    }
+    if (unknownOptions.length) {
+      const candidates: [string, string][] = [
+        ...[...propertyNames].map((name): [string, string] => [name, `--${name}`]),
+        ...Object.keys(aliases).map((alias): [string, string] => [alias, `-${alias}`]),
+      ];
+      for (const option of unknownOptions) {
+        const similar = findSimilar(option.replace(/^(--no-|--|-)/, ''), candidates);
+        if (similar.length) suggestions.push({ type: 'option', input: option, suggestions: similar });
+      }
+    }
+
+    // Global options are validated separately by the schemas that declare them
+    const globalOptions: Record<string, unknown> = {};
+    for (const key of globalOwners.keys()) {
+      if (!(key in rawOptions)) continue;
+      globalOptions[key] = rawOptions[key];
+      delete rawOptions[key];
+    }
+
+    return {
+      command: curCommand,
+      rawOptions,
+      args,
+      unknownOptions,
+      suggestions,
+      globals: { options: globalOptions, owners: globalOwners },
+    };
   };
 
   /**
@@ -151,7 +645,7 @@ export function createPadroneCommandBuilder<TBuilder extends PadroneProgram = Pa
     command: AnyPadroneCommand,
     rawOptions: Record<string, unknown>,
     args: string[],
-    parseOptions?: { envData?: Record<string, unknown>; configData?: Record<string, unknown> },
+    parseOptions?: { envData?: Record<string, unknown>; configData?: Record<string, unknown>; globals?: ParsedGlobalOptions },
   ) => {
     // Apply preprocessing (env and config bindings)
     const preprocessedOptions = preprocessOptions(rawOptions, {
@@ -164,14 +658,14 @@ export function createPadroneCommandBuilder<TBuilder extends PadroneProgram = Pa
     const positionalConfig = command.meta?.positional ? parsePositionalConfig(command.meta.positional) : [];
 
     // Map positional arguments to their named options
+    let argIndex = 0;
     if (positionalConfig.length > 0) {
-      let argIndex = 0;
-      for (const { name, variadic } of positionalConfig) {
+      for (const [index, { name, variadic }] of positionalConfig.entries()) {
         if (argIndex >= args.length) break;
 
         if (variadic) {
           // Collect remaining args (but leave room for non-variadic args after)
-          const remainingPositionals = positionalConfig.slice(positionalConfig.indexOf({ name, variadic }) + 1);
+          const remainingPositionals = positionalConfig.slice(index + 1);
           const nonVariadicAfter = remainingPositionals.filter((p) => !p.variadic).length;
           const variadicEnd = args.length - nonVariadicAfter;
           preprocessedOptions[name] = args.slice(argIndex, variadicEnd);
@@ -183,61 +677,198 @@ export function createPadroneCommandBuilder<TBuilder extends PadroneProgram = Pa
       }
     }
 
-    const optionsParsed = command.options ? command.options['~standard'].validate(preprocessedOptions) : { value: preprocessedOptions };
+    // Options implied by the ones that are set are applied before validation, and the relations between options
+    // and the constraints of exclusive groups are checked with it
+    const metadata = command.options ? extractSchemaMetadata(command.options, command.meta?.options) : undefined;
+    if (metadata) applyImpliedOptions(preprocessedOptions, metadata.implies);
+    const relationIssues = [
+      ...(metadata ? checkOptionRelations(preprocessedOptions, metadata) : []),
+      ...checkOptionGroups(preprocessedOptions, parseOptionGroups(command.meta?.groups)),
+    ];
 
-    if (optionsParsed instanceof Promise) {
-      throw new Error('Async validation is not supported. Schema validate() must return a synchronous result.');
-    }
+    const optionsParsed = command.options ? command.options['~standard'].validate(preprocessedOptions) : { value: preprocessedOptions };
 
     // Return undefined for options when there's no schema and no meaningful options
     const hasOptions = command.options || Object.keys(preprocessedOptions).length > 0;
 
-    return {
-      options: optionsParsed.issues ? undefined : hasOptions ? (optionsParsed.value as any) : undefined,
-      optionsResult: optionsParsed as any,
-    };
-  };
+    const globalsParsed = parseOptions?.globals?.owners.size ? validateGlobalOptions(parseOptions.globals, parseOptions) : undefined;
+
+    return thenMaybe(globalsParsed, (globalsParsed) =>
+      thenMaybe(optionsParsed, (optionsParsed) => {
+        if (relationIssues.length) optionsParsed = { issues: [...relationIssues, ...(optionsParsed.issues ?? [])] };
+        if (globalsParsed) {
+          // Global options are passed to the action along with the command's own options, which take precedence
+          const issues = [...(optionsParsed.issues ?? []), ...globalsParsed.issues];
+          optionsParsed = issues.length ? { issues } : { value: { ...globalsParsed.value, ...(optionsParsed.value as object) } };
+          for (const [key, value] of Object.entries(globalsParsed.input)) {
+            if (!(key in preprocessedOptions)) preprocessedOptions[key] = value;
+          }
+        }
 
-  const parse: AnyPadroneProgram['parse'] = (input, parseOptions) => {
-    const { command, rawOptions, args } = parseCommand(input);
+        return {
+          options: optionsParsed.issues ? undefined : hasOptions || globalsParsed ? (optionsParsed.value as any) : undefined,
+          optionsResult: optionsParsed as any,
+          unusedArgs: args.slice(argIndex),
+          preprocessedOptions,
+          globalOptions: globalsParsed?.value,
+        };
+      }),
+    );
+  };
 
-    // Resolve env schema: command's own envSchema > inherited from parent/root
-    const resolveEnvSchema = (cmd: AnyPadroneCommand): AnyPadroneCommand['envSchema'] => {
-      if (cmd.envSchema !== undefined) return cmd.envSchema;
-      if (cmd.parent) return resolveEnvSchema(cmd.parent);
-      return undefined;
-    };
-    const envSchema = resolveEnvSchema(command);
+  /**
+   * Validates global options with the schemas of the parent commands that declare them.
+   * Only issues for the global options are reported, since the other options of a parent do not apply to its subcommands.
+   */
+  const validateGlobalOptions = (
+    globals: ParsedGlobalOptions,
+    parseOptions: { envData?: Record<string, unknown>; configData?: Record<string, unknown> },
+  ) => {
+    const keysByOwner = new Map<AnyPadroneCommand, string[]>();
+    for (const [key, owner] of globals.owners) keysByOwner.set(owner, [...(keysByOwner.get(owner) ?? []), key]);
+
+    const results = [...keysByOwner].map(([owner, keys]) => {
+      const pick = (data?: Record<string, unknown>) =>
+        data && Object.fromEntries(keys.filter((key) => key in data).map((key) => [key, data[key]]));
+      const input = preprocessOptions(pick(globals.options) ?? {}, {
+        aliases: {},
+        envData: pick(parseOptions.envData),
+        configData: pick(parseOptions.configData),
+      });
+      return thenMaybe(owner.options!['~standard'].validate(input), (result) => ({ keys, input, result }));
+    });
 
-    // Validate env vars against schema if provided
-    let envData: Record<string, unknown> | undefined = parseOptions?.envData;
-    if (envSchema && !envData) {
-      const rawEnv = parseOptions?.env ?? (typeof process !== 'undefined' ? process.env : {});
-      const envValidated = envSchema['~standard'].validate(rawEnv);
-      if (envValidated instanceof Promise) {
-        throw new Error('Async validation is not supported. Env schema validate() must return a synchronous result.');
-      }
-      // For env vars, we don't throw on validation errors - just use the transformed value if valid
-      if (!envValidated.issues) {
-        envData = envValidated.value as unknown as Record<string, unknown>;
+    const settled = results.some((result) => result instanceof Promise)
+      ? Promise.all(results)
+      : (results as Awaited<(typeof results)[number]>[]);
+    return thenMaybe(settled, (settled) => {
+      const value: Record<string, unknown> = {};
+      const input: Record<string, unknown> = {};
+      const issues: StandardSchemaV1.Issue[] = [];
+      for (const { keys, input: ownerInput, result } of settled) {
+        const isGlobalIssue = (issue: StandardSchemaV1.Issue) => {
+          const segment = issue.path?.[0];
+          return keys.includes(String(typeof segment === 'object' ? segment.key : segment));
+        };
+        issues.push(...(result.issues?.filter(isGlobalIssue) ?? []));
+
+        // When the parent's other options are invalid there is no output, so the preprocessed input is used as-is
+        const output = (result.issues ? ownerInput : result.value) as Record<string, unknown>;
+        for (const key of keys) {
+          if (output[key] !== undefined) value[key] = output[key];
+          if (ownerInput[key] !== undefined) input[key] = ownerInput[key];
+        }
       }
-    }
+      return { value, input, issues };
+    });
+  };
 
-    const { options, optionsResult } = validateOptions(command, rawOptions, args, {
-      envData,
-      configData: parseOptions?.configData,
+  /**
+   * Validates env vars with the env schema of a command, or the one inherited from its parent/root.
+   * Invalid env vars throw a `PadroneEnvError`, in `cli()` and `parse()` alike. Missing env vars are expected
+   * to be handled by `.optional()` or `.default()` in the schema, so remaining issues mean the environment is misconfigured.
+   * @param env - The env vars to validate. Defaults to `process.env`.
+   * @param envData - Returned when there is no env schema
+   */
+  const validateEnv = (
+    command: AnyPadroneCommand,
+    env: Record<string, string | undefined> | undefined,
+    envData?: Record<string, unknown>,
+  ): MaybePromise<Record<string, unknown> | undefined> => {
+    let envSchema: AnyPadroneCommand['envSchema'];
+    for (let cmd: AnyPadroneCommand | undefined = command; cmd && envSchema === undefined; cmd = cmd.parent) envSchema = cmd.envSchema;
+    if (!envSchema) return envData;
+
+    const rawEnv = env ?? (typeof process !== 'undefined' ? process.env : {});
+    return thenMaybe(envSchema['~standard'].validate(rawEnv), (validated) => {
+      if (validated.issues) throw new PadroneEnvError(command.path, validated.issues);
+      return validated.value as unknown as Record<string, unknown>;
     });
+  };
 
-    return {
-      command: command as any,
-      options,
-      optionsResult,
+  /**
+   * Resolves whether strict mode applies to a command: command's own setting > inherited from parent/root.
+   */
+  const resolveStrict = (cmd: AnyPadroneCommand): boolean => {
+    if (cmd.strict !== undefined) return cmd.strict;
+    if (cmd.parent) return resolveStrict(cmd.parent);
+    return false;
+  };
+
+  /**
+   * Throws a `PadroneStrictError` when strict mode is enabled and the input has unknown options or unused arguments.
+   */
+  const assertStrictInput = (
+    command: AnyPadroneCommand,
+    unknownOptions: string[],
+    unusedArgs: string[],
+    suggestions: PadroneSuggestion[],
+  ) => {
+    if (!resolveStrict(command)) return;
+    if (unknownOptions.length === 0 && unusedArgs.length === 0) return;
+    throw new PadroneStrictError(command.path, unknownOptions, unusedArgs, suggestions);
+  };
+
+  const syncError = (method: 'cli' | 'parse') =>
+    new Error(
+      `Async validation and lazy commands are not supported by ${method}(). Use ${method}Async() for schemas with async validation or lazy commands.`,
+    );
+
+  /**
+   * Returns `thenMaybe` for the methods that may return a promise. For `cli()` and `parse()`, which return synchronously,
+   * it returns a version that throws at the first promise instead of chaining the rest of the run to it,
+   * so that the action does not go on to run after the call has failed.
+   */
+  const chainFor =
+    (method: 'cli' | 'parse' | undefined): typeof thenMaybe =>
+    (value, fn) => {
+      if (!method || !(value instanceof Promise)) return thenMaybe(value, fn);
+      // The promise is still observed so that a rejection does not go unhandled
+      value.catch(() => {});
+      throw syncError(method);
     };
+
+  /**
+   * Parses and validates CLI input.
+   * @param sync - Set by `parse()`, which throws when a schema validates asynchronously
+   */
+  const parseInput = (
+    input: Parameters<AnyPadroneProgram['parse']>[0],
+    parseOptions: PadroneParseOptions | undefined,
+    sync?: 'parse',
+  ): MaybePromise<ReturnType<AnyPadroneProgram['parse']>> => {
+    const chain = chainFor(sync);
+    const loading = loadSelectedCommands(input);
+    if (loading) return chain(loading, () => parseInput(input, parseOptions, sync));
+
+    const { command, rawOptions, args, unknownOptions, suggestions, globals } = parseCommand(input);
+
+    // Env vars given as data are used as-is, without validating them against the env schema
+    const envData = parseOptions?.envData ?? validateEnv(command, parseOptions?.env);
+
+    return chain(envData, (envData) =>
+      chain(validateOptions(command, rawOptions, args, { envData, configData: parseOptions?.configData, globals }), (validated) => {
+        const { options, optionsResult, unusedArgs } = validated;
+        assertStrictInput(command, unknownOptions, unusedArgs, suggestions);
+
+        return {
+          command: command as any,
+          options,
+          optionsResult,
+          ...(suggestions.length ? { suggestions } : {}),
+        };
+      }),
+    );
   };
 
+  const parse: AnyPadroneProgram['parse'] = (input, parseOptions) =>
+    parseInput(input, parseOptions, 'parse') as ReturnType<AnyPadroneProgram['parse']>;
+
+  const parseAsync: AnyPadroneProgram['parseAsync'] = async (input, parseOptions) => parseInput(input, parseOptions);
+
   const stringify: AnyPadroneProgram['stringify'] = (command = '' as any, options) => {
     const commandObj = typeof command === 'string' ? findCommandByName(command, existingCommand.commands) : (command as AnyPadroneCommand);
-    if (!commandObj) throw new Error(`Command "${command ?? ''}" not found`);
+    if (!commandObj) throw new PadroneUnknownCommandError(String(command ?? ''));
 
     const parts: string[] = [];
 
@@ -246,6 +877,7 @@ export function createPadroneCommandBuilder<TBuilder extends PadroneProgram = Pa
     // Get positional config to determine which options are positional
     const positionalConfig = commandObj.meta?.positional ? parsePositionalConfig(commandObj.meta.positional) : [];
     const positionalNames = new Set(positionalConfig.map((p) => p.name));
+    const passthrough = commandObj.meta?.passthrough;
 
     // Output positional arguments first in order
     if (options && typeof options === 'object') {
@@ -268,7 +900,7 @@ export function createPadroneCommandBuilder<TBuilder extends PadroneProgram = Pa
 
       // Output remaining options (non-positional)
       for (const [key, value] of Object.entries(options)) {
-        if (value === undefined || positionalNames.has(key)) continue;
+        if (value === undefined || positionalNames.has(key) || key === passthrough) continue;
 
         if (typeof value === 'boolean') {
           if (value) parts.push(`--${key}`);
@@ -287,191 +919,197 @@ export function createPadroneCommandBuilder<TBuilder extends PadroneProgram = Pa
           parts.push(`--${key}=${value}`);
         }
       }
+
+      // Output passthrough arguments after the `--` separator
+      const passthroughValue = passthrough ? (options as Record<string, unknown>)[passthrough] : undefined;
+      if (Array.isArray(passthroughValue) && passthroughValue.length > 0) {
+        parts.push('--');
+        for (const v of passthroughValue) {
+          const vStr = String(v);
+          if (vStr.includes(' ')) parts.push(`"${vStr}"`);
+          else parts.push(vStr);
+        }
+      }
     }
 
     return parts.join(' ');
   };
 
-  type DetailLevel = 'minimal' | 'standard' | 'full';
-  type FormatLevel = 'text' | 'ansi' | 'console' | 'markdown' | 'html' | 'json' | 'auto';
-
   /**
-   * Check if help, version, or completion flags/commands are present in the input.
-   * Returns the appropriate action to take, or null if normal execution should proceed.
+   * Formats an error for the user, with a hint to the help of the command for usage errors.
+   * @param programName - The name that the help command starts with, omitted in a REPL
    */
-  const checkBuiltinCommands = (
-    input: string | undefined,
-  ):
-    | { type: 'help'; command?: AnyPadroneCommand; detail?: DetailLevel; format?: FormatLevel }
-    | { type: 'version' }
-    | { type: 'completion'; shell?: ShellType }
-    | null => {
-    if (!input) return null;
-
-    const parts = parseCliInputToParts(input);
-    const terms = parts.filter((p) => p.type === 'term').map((p) => p.value);
-    const opts = parts.filter((p) => p.type === 'option' || p.type === 'alias');
+  const formatError = (error: unknown, colorize: boolean, programName?: string): string[] => {
+    if (!(error instanceof PadroneError)) return [error instanceof Error ? error.message : String(error)];
+
+    const message =
+      error instanceof PadroneValidationError && error.details.length
+        ? formatValidationReport(error.command, error.details, createColorizer(colorize))
+        : error.message;
+    // The hint is left out when no plugin handles --help
+    const hasHelpFlag = existingCommand.plugins?.some((plugin) => plugin.flags?.help);
+    if (error.exitCode !== PadroneExitCode.usage || !hasHelpFlag) return [message];
+
+    // An unknown command has no help, so the hint points to the help of its parent
+    const command = error instanceof PadroneUnknownCommandError ? error.command.split(' ').slice(0, -1).join(' ') : error.command;
+    const helpCommand = [programName, command, '--help'].filter(Boolean).join(' ');
+    return [message, `Run "${helpCommand}" for usage.`];
+  };
 
-    // Check for --help, -h flags (these take precedence over commands)
-    const hasHelpFlag = opts.some((p) => (p.type === 'option' && p.key === 'help') || (p.type === 'alias' && p.key === 'h'));
+  const exitCodeOf = (error: unknown) => (error instanceof PadroneError ? error.exitCode : PadroneExitCode.failure);
 
-    // Extract detail level from --detail=<level> or -d <level>
-    const getDetailLevel = (): DetailLevel | undefined => {
-      for (const opt of opts) {
-        if (opt.type === 'option' && opt.key === 'detail' && typeof opt.value === 'string') {
-          if (opt.value === 'minimal' || opt.value === 'standard' || opt.value === 'full') {
-            return opt.value;
-          }
-        }
-        if (opt.type === 'alias' && opt.key === 'd' && typeof opt.value === 'string') {
-          if (opt.value === 'minimal' || opt.value === 'standard' || opt.value === 'full') {
-            return opt.value;
-          }
-        }
-      }
-      return undefined;
-    };
-    const detail = getDetailLevel();
-
-    // Extract format from --format=<value> or -f <value>
-    const getFormat = (): FormatLevel | undefined => {
-      const validFormats: FormatLevel[] = ['text', 'ansi', 'console', 'markdown', 'html', 'json', 'auto'];
-      for (const opt of opts) {
-        if (opt.type === 'option' && opt.key === 'format' && typeof opt.value === 'string') {
-          if (validFormats.includes(opt.value as FormatLevel)) {
-            return opt.value as FormatLevel;
-          }
-        }
-        if (opt.type === 'alias' && opt.key === 'f' && typeof opt.value === 'string') {
-          if (validFormats.includes(opt.value as FormatLevel)) {
-            return opt.value as FormatLevel;
-          }
-        }
-      }
-      return undefined;
-    };
-    const format = getFormat();
+  /**
+   * Prints an error for the user.
+   */
+  const printError = (error: unknown) => {
+    // Unexpected errors are printed as-is, with their stack
+    if (!(error instanceof PadroneError)) console.error(error);
+    else for (const line of formatError(error, supportsColor(process.stderr), existingCommand.name)) console.error(line);
+  };
 
-    // Check for --version, -v, -V flags
-    const hasVersionFlag = opts.some(
-      (p) => (p.type === 'option' && p.key === 'version') || (p.type === 'alias' && (p.key === 'v' || p.key === 'V')),
-    );
+  /**
+   * Prints an error for the user and exits the process with the error's exit code.
+   */
+  const exitWithError = (error: unknown): never => {
+    printError(error);
+    if (typeof process !== 'undefined') process.exit(exitCodeOf(error));
+    throw error;
+  };
 
-    // If the first term is the program name, skip it
-    const normalizedTerms = [...terms];
-    if (normalizedTerms[0] === existingCommand.name) normalizedTerms.shift();
-
-    // Check if user has defined 'help', 'version', or 'completion' commands (they take precedence)
-    const userHelpCommand = findCommandByName('help', existingCommand.commands);
-    const userVersionCommand = findCommandByName('version', existingCommand.commands);
-    const userCompletionCommand = findCommandByName('completion', existingCommand.commands);
-
-    // Check for 'help' command (only if user hasn't defined one)
-    if (!userHelpCommand && normalizedTerms[0] === 'help') {
-      // help <command> - get help for specific command
-      const commandName = normalizedTerms.slice(1).join(' ');
-      const targetCommand = commandName ? findCommandByName(commandName, existingCommand.commands) : undefined;
-      return { type: 'help', command: targetCommand, detail, format };
+  const cli: AnyPadroneProgram['cli'] = (input, cliOptions) => {
+    try {
+      const res = runCli(input, cliOptions, { sync: 'cli' }) as ReturnType<AnyPadroneProgram['cli']>;
+      // The rejection of an async action is left to the caller, who awaits `result`, unless cli() exits on errors
+      if (cliOptions?.exitOnError && res.result instanceof Promise) res.result = res.result.catch(exitWithError);
+      return res as any;
+    } catch (error) {
+      if (cliOptions?.exitOnError) exitWithError(error);
+      throw error;
     }
+  };
 
-    // Check for 'version' command (only if user hasn't defined one)
-    if (!userVersionCommand && normalizedTerms[0] === 'version') {
-      return { type: 'version' };
+  const cliAsync: AnyPadroneProgram['cliAsync'] = async (input, cliOptions) => {
+    try {
+      const res = await runCli(input, cliOptions);
+      return { ...res, result: await res.result } as any;
+    } catch (error) {
+      if (cliOptions?.exitOnError) exitWithError(error);
+      throw error;
     }
+  };
 
-    // Check for 'completion' command (only if user hasn't defined one)
-    if (!userCompletionCommand && normalizedTerms[0] === 'completion') {
-      const shellArg = normalizedTerms[1] as ShellType | undefined;
-      const validShells: ShellType[] = ['bash', 'zsh', 'fish', 'powershell'];
-      const shell = shellArg && validShells.includes(shellArg) ? shellArg : undefined;
-      return { type: 'completion', shell };
+  const interactive: AnyPadroneProgram['interactive'] = async (input, interactiveOptions) => {
+    if (!canPrompt(interactiveOptions)) return cliAsync(input, interactiveOptions);
+
+    const prompter = createPrompter(interactiveOptions);
+    try {
+      // The prompter is closed before the action runs, so that the action can read the input itself
+      const res = await runCli(input, interactiveOptions, { prompter, askForMissing: true, beforeAction: prompter.close });
+      return { ...res, result: await res.result } as any;
+    } catch (error) {
+      if (interactiveOptions?.exitOnError) exitWithError(error);
+      throw error;
+    } finally {
+      prompter.close();
     }
+  };
 
-    // Handle help flag - find the command being requested
-    if (hasHelpFlag) {
-      // Filter out help-related terms and flags to find the target command
-      const commandTerms = normalizedTerms.filter((t) => t !== 'help');
-      const commandName = commandTerms.join(' ');
-      const targetCommand = commandName ? findCommandByName(commandName, existingCommand.commands) : undefined;
-      return { type: 'help', command: targetCommand, detail, format };
-    }
+  const repl: AnyPadroneProgram['repl'] = async (replOptions = {}) => {
+    const session = createReplSession(existingCommand, replOptions);
+    const stream = (replOptions.output ?? process.stdout) as { isTTY?: boolean };
+    const colorize = supportsColor(stream);
+    const state: Record<string, unknown> = {};
+    const results: any[] = [];
+
+    try {
+      for (let line = await session.read(); line !== undefined; line = await session.read()) {
+        const input = line.trim();
+        if (!input) continue;
+        if ((input === 'exit' || input === 'quit') && !findCommandByName(input, existingCommand.commands)) break;
+
+        try {
+          const output = runPlugins(existingCommand, input, pluginTools, getInputShape(findSelectedCommand(input)).owns);
+          if (output !== undefined) {
+            session.print(await output);
+            continue;
+          }
 
-    // Handle version flag (only for root command, i.e., no subcommand terms)
-    if (hasVersionFlag && normalizedTerms.length === 0) {
-      return { type: 'version' };
+          const res = await session.run(async (signal) => {
+            const res = await runCli(
+              input,
+              { ...replOptions, signal, handleSignals: false },
+              { prompter: session.prompter, session: state, output: { print: session.print, tty: !!stream.isTTY } },
+            );
+            return { ...res, result: await res.result };
+          });
+          results.push(res);
+        } catch (error) {
+          for (const message of formatError(error, colorize)) session.print(message);
+        }
+      }
+    } finally {
+      session.close();
     }
 
-    return null;
+    return results;
   };
 
   /**
-   * Extract the config file path from --config=<path> or -c <path> flags.
+   * Runs the command selected by the input.
+   * Commands that need approval are confirmed with the prompter, or with a prompter on stdin when there is none.
+   * @param askForMissing - Whether required options that are missing from the input are asked for with the prompter
+   * @param beforeAction - Called right before the action runs, e.g. to close the prompter
+   * @param approved - Whether commands that need approval were approved already, e.g. by the user of an AI tool
+   * @param session - The state shared by the commands of a REPL session
+   * @param output - Where the formatted result is printed, and whether it is a terminal. Defaults to the console.
+   * @param sync - Set by `cli()`, which throws when a schema validates asynchronously
    */
-  const extractConfigPath = (input: string | undefined): string | undefined => {
-    if (!input) return undefined;
-
-    const parts = parseCliInputToParts(input);
-    const opts = parts.filter((p) => p.type === 'option' || p.type === 'alias');
-
-    for (const opt of opts) {
-      if (opt.type === 'option' && opt.key === 'config' && typeof opt.value === 'string') {
-        return opt.value;
-      }
-      if (opt.type === 'alias' && opt.key === 'c' && typeof opt.value === 'string') {
-        return opt.value;
-      }
-    }
-    return undefined;
-  };
+  const runCli = (
+    input: Parameters<AnyPadroneProgram['cli']>[0],
+    cliOptions: PadroneCliOptions | undefined,
+    runOptions: {
+      prompter?: PadronePrompter;
+      askForMissing?: boolean;
+      beforeAction?: () => void;
+      approved?: boolean;
+      session?: Record<string, unknown>;
+      output?: { print: (text: string) => void; tty?: boolean };
+      sync?: 'cli';
+    } = {},
+  ): MaybePromise<ReturnType<AnyPadroneProgram['cli']>> => {
+    const { prompter, askForMissing, beforeAction, approved, session } = runOptions;
+    const chain = chainFor(runOptions.sync);
+    const output = runOptions.output ?? {
+      print: (text: string) => console.log(text),
+      tty: typeof process !== 'undefined' && !!process.stdout?.isTTY,
+    };
 
-  const cli: AnyPadroneProgram['cli'] = (input, cliOptions) => {
     // Resolve input from process.argv if not provided
-    const resolvedInput = input ?? (typeof process !== 'undefined' ? (process.argv.slice(2).join(' ') as any) : undefined);
-
-    // Check for built-in help/version/completion commands and flags
-    const builtin = checkBuiltinCommands(resolvedInput);
-
-    if (builtin) {
-      if (builtin.type === 'help') {
-        const helpText = generateHelp(existingCommand, builtin.command ?? existingCommand, {
-          detail: builtin.detail,
-          format: builtin.format,
-        });
-        console.log(helpText);
-        return {
-          command: existingCommand,
-          args: undefined,
-          options: undefined,
-          result: helpText,
-        } as any;
-      }
-
-      if (builtin.type === 'version') {
-        const version = getVersion(existingCommand.version);
-        console.log(version);
-        return {
-          command: existingCommand,
-          options: undefined,
-          result: version,
-        } as any;
-      }
-
-      if (builtin.type === 'completion') {
-        const completionScript = generateCompletionOutput(existingCommand, builtin.shell);
-        console.log(completionScript);
-        return {
-          command: existingCommand,
-          options: undefined,
-          result: completionScript,
-        } as any;
-      }
+    const resolvedInput = input ?? getProcessArgv();
+
+    // Lazy commands selected by the input are loaded first, which makes the run async
+    const loading = loadSelectedCommands(resolvedInput);
+    if (loading) return chain(loading, () => runCli(resolvedInput, cliOptions, runOptions));
+
+    // Plugins handle their commands and flags, e.g. help, version and completion, instead of a command of the program
+    // Options that the selected command defines itself are left to it, e.g. its own -v or -h
+    const pluginOutput = resolvedInput
+      ? runPlugins(existingCommand, resolvedInput, pluginTools, getInputShape(findSelectedCommand(resolvedInput)).owns)
+      : undefined;
+
+    if (pluginOutput !== undefined) {
+      return chain(pluginOutput, (output) => {
+        console.log(output);
+        return { command: existingCommand, options: undefined, result: output } as any;
+      });
     }
 
     // Parse the command first (without validating options)
-    const { command, rawOptions, args } = parseCommand(resolvedInput);
+    const { command, rawOptions, args, unknownOptions, suggestions, globals, isFallback } = parseCommand(resolvedInput);
+    const { owns } = getInputShape(command);
 
     // Extract config file path from --config or -c flag
-    const configPath = extractConfigPath(resolvedInput);
+    const configPath = resolvedInput ? findPluginConfigFile(existingCommand, resolvedInput, pluginTools, owns) : undefined;
 
     // Resolve config files: command's own configFiles > inherited from parent/root
     // undefined = inherit, empty array = no config files (explicit opt-out)
@@ -490,14 +1128,6 @@ export function createPadroneCommandBuilder<TBuilder extends PadroneProgram = Pa
     };
     const configSchema = resolveConfigSchema(command);
 
-    // Resolve env schema: command's own envSchema > inherited from parent/root
-    const resolveEnvSchema = (cmd: AnyPadroneCommand): AnyPadroneCommand['envSchema'] => {
-      if (cmd.envSchema !== undefined) return cmd.envSchema;
-      if (cmd.parent) return resolveEnvSchema(cmd.parent);
-      return undefined;
-    };
-    const envSchema = resolveEnvSchema(command);
-
     // Determine config data: explicit --config flag > auto-discovered config > provided configData
     let configData = cliOptions?.configData;
     if (configPath) {
@@ -512,60 +1142,173 @@ export function createPadroneCommandBuilder<TBuilder extends PadroneProgram = Pa
     }
 
     // Validate config data against schema if provided
-    if (configData && configSchema) {
-      const configValidated = configSchema['~standard'].validate(configData);
-      if (configValidated instanceof Promise) {
-        throw new Error('Async validation is not supported. Config schema validate() must return a synchronous result.');
-      }
-      if (configValidated.issues) {
-        const issueMessages = configValidated.issues.map((i) => `  - ${i.path?.join('.') || 'root'}: ${i.message}`).join('\n');
-        throw new Error(`Invalid config file:\n${issueMessages}`);
-      }
-      configData = configValidated.value as unknown as Record<string, unknown>;
-    }
+    const configValidated = configData && configSchema ? configSchema['~standard'].validate(configData) : undefined;
+    const validatedConfigData = chain(configValidated, (configValidated) => {
+      if (!configValidated) return configData;
+      if (configValidated.issues) throw new PadroneConfigError(command.path, configValidated.issues);
+      return configValidated.value as unknown as Record<string, unknown>;
+    });
 
     // Validate env vars against schema if provided
-    let envData: Record<string, unknown> | undefined = cliOptions?.envData;
-    if (envSchema) {
-      const rawEnv = cliOptions?.env ?? (typeof process !== 'undefined' ? process.env : {});
-      const envValidated = envSchema['~standard'].validate(rawEnv);
-      if (envValidated instanceof Promise) {
-        throw new Error('Async validation is not supported. Env schema validate() must return a synchronous result.');
+    const envData = validateEnv(command, cliOptions?.env, cliOptions?.envData);
+
+    // Validate options with env and config data, asking for missing options when interactive
+    const validated = chain(validatedConfigData, (configData) =>
+      chain(envData, (envData) => {
+        const validateWith = (rawOptions: Record<string, unknown>) =>
+          chain(validateOptions(command, rawOptions, args, { envData, configData, globals }), (validated) => ({
+            ...validated,
+            envData,
+            configData,
+          }));
+        const validated = validateWith(rawOptions);
+        if (!prompter || !askForMissing) return validated;
+        return thenMaybe(validated, (validated) => promptForMissingOptions(command, validated, rawOptions, validateWith, prompter));
+      }),
+    );
+
+    return chain(validated, ({ options, optionsResult, unusedArgs, preprocessedOptions, globalOptions, envData, configData }) => {
+      assertStrictInput(command, unknownOptions, unusedArgs, suggestions);
+
+      if (optionsResult.issues) {
+        const details = describeOptionIssues(command, optionsResult.issues, preprocessedOptions, globals?.owners);
+        throw new PadroneValidationError(command.path, optionsResult.issues, details);
+      }
+
+      // A parent command without a handler was most likely selected because of a mistyped subcommand
+      if (!command.handler) throw new PadroneMissingHandlerError(command.path, suggestions);
+
+      // Commands that need approval are confirmed before their action runs, unless a plugin approved them, e.g. with --yes
+      const approval =
+        approved || (resolvedInput && isApprovedByPlugins(existingCommand, resolvedInput, pluginTools, owns))
+          ? undefined
+          : thenMaybe(needsApproval(command, options), (needed) => {
+              if (!needed) return;
+              if (prompter) return confirmApproval(command, prompter);
+              if (!canPrompt()) throw new PadroneApprovalError(command.path, false);
+              const stdinPrompter = createPrompter();
+              return confirmApproval(command, stdinPrompter).finally(stdinPrompter.close);
+            });
+
+      const scope = createAbortScope(cliOptions?.signal);
+      const toActionError = (error: unknown) => {
+        if (error instanceof PadroneError) return error;
+        return scope.signal.aborted ? new PadroneAbortError(command.path, error) : new PadroneActionError(command.path, error);
+      };
+
+      const argv = Array.isArray(resolvedInput) ? resolvedInput : resolvedInput ? tokenizeInput(resolvedInput.trim()) : [];
+      const details: PadroneRunDetails = {
+        argv,
+        parentOptions: globalOptions,
+        env: envData,
+        config: configData,
+        signal: scope.signal,
+        onAbort: scope.onAbort,
+        session,
+      };
+
+      const start = () => {
+        beforeAction?.();
+        return execute(command, options, details, cliOptions?.context);
+      };
+
+      // The result is printed as formatted by the plugins of the program, e.g. as chosen with --output.
+      // Fallbacks and external commands print their own output, so their results, e.g. exit codes, are not printed.
+      const printResult = (result: unknown) => {
+        if (isFallback) return;
+        let text: string | undefined;
+        try {
+          text = formatPluginOutput(existingCommand, resolvedInput, pluginTools, { command, result, tty: output.tty }, owns);
+        } catch {
+          // A result that cannot be formatted, e.g. a BigInt or a cyclic object as JSON, does not fail a run that succeeded
+          return;
+        }
+        if (text !== undefined) output.print(text);
+      };
+
+      let res: any;
+      try {
+        res = isThenable(approval) ? { command, options, result: Promise.resolve(approval).then(() => start().result) } : start();
+      } catch (error) {
+        scope.dispose();
+        throw toActionError(error);
       }
-      // For env vars, we don't throw on validation errors - just use the transformed value if valid
-      // This is because the schema may use .optional() or .default() for missing env vars
-      if (!envValidated.issues) {
-        envData = envValidated.value as unknown as Record<string, unknown>;
+
+      if (!isThenable(res.result)) {
+        scope.dispose();
+        printResult(res.result);
+      } else {
+        // Only async actions can be aborted, so process signals are handled until they settle
+        const removeSignalListeners = cliOptions?.handleSignals === false ? () => {} : abortOnProcessSignals(scope);
+        const settle = () => {
+          removeSignalListeners();
+          scope.dispose();
+          return scope.cleanup();
+        };
+
+        // Async actions reject through the same error path as actions that throw
+        res.result = Promise.resolve(res.result).then(
+          async (result) => {
+            await settle();
+            printResult(result);
+            return result;
+          },
+          async (error) => {
+            await settle();
+            throw toActionError(error);
+          },
+        );
       }
-    }
 
-    // Validate options with env and config data
-    const { options, optionsResult } = validateOptions(command, rawOptions, args, {
-      envData,
-      configData,
+      return {
+        ...res,
+        optionsResult,
+        ...(suggestions.length ? { suggestions } : {}),
+      };
     });
-
-    const res = run(command, options) as any;
-    return {
-      ...res,
-      optionsResult,
-    };
   };
 
-  const run: AnyPadroneProgram['run'] = (command, options) => {
-    const commandObj = typeof command === 'string' ? findCommandByName(command, existingCommand.commands) : (command as AnyPadroneCommand);
-    if (!commandObj) throw new Error(`Command "${command ?? ''}" not found`);
-    if (!commandObj.handler) throw new Error(`Command "${commandObj.path}" has no handler`);
+  /**
+   * Runs the action of a command with its middleware and context.
+   * @param services - Services that take precedence over the ones registered with `.context()`
+   */
+  const execute = (command: AnyPadroneCommand, options: unknown, details?: PadroneRunDetails, services?: object) => {
+    if (!command.handler) throw new PadroneMissingHandlerError(command.path);
 
-    const result = commandObj.handler(options as any);
+    const context = createActionContext(command, details, services);
+    const result = runWithMiddleware(command, options, context, command.handler, existingCommand.plugins) as any;
 
     return {
-      command: commandObj as any,
+      command: command as any,
       options: options as any,
-      result,
+      // The results of lazy commands are always promises, whether they had to be loaded or not
+      result: command.lazy ? Promise.resolve(result) : result,
     };
   };
 
+  const run: AnyPadroneProgram['run'] = (command, options, services) => {
+    const commandObj = typeof command === 'string' ? findCommandByName(command, existingCommand.commands) : (command as AnyPadroneCommand);
+    if (!commandObj) throw new PadroneUnknownCommandError(String(command ?? ''));
+    if (commandObj.load) {
+      const result = commandObj.load().then(() => execute(commandObj, options, undefined, services).result);
+      return { command: commandObj as any, options: options as any, result: result as any };
+    }
+    return execute(commandObj, options, undefined, services);
+  };
+
+  const load: AnyPadroneProgram['load'] = async (command) => {
+    if (!command) return loadCommands(existingCommand, true);
+    // Each command on the path is loaded before its subcommands can be found
+    const terms = command.split(' ');
+    let commandObj: AnyPadroneCommand | undefined = existingCommand;
+    for (let i = 0; i < terms.length && commandObj; i++) {
+      await commandObj.load?.();
+      commandObj = findCommandByName(terms[i]!, commandObj.commands);
+    }
+    if (!commandObj) throw new PadroneUnknownCommandError(command);
+    await commandObj.load?.();
+  };
+
   const tool: AnyPadroneProgram['tool'] = () => {
     return {
       type: 'function',
@@ -577,24 +1320,30 @@ export function createPadroneCommandBuilder<TBuilder extends PadroneProgram = Pa
         [Symbol.for('vercel.ai.schema') as keyof Schema & symbol]: true,
         jsonSchema: {
           type: 'object',
-          properties: { command: { type: 'string' } },
+          properties: { command: { anyOf: [{ type: 'string' }, { type: 'array', items: { type: 'string' } }] } },
           additionalProperties: false,
         },
-        _type: undefined as unknown as { command: string },
+        _type: undefined as unknown as { command: string | string[] },
         validate: (value) => {
           const command = (value as any)?.command;
           if (typeof command === 'string') return { success: true, value: { command } };
-          return { success: false, error: new Error('Expected an object with command property as string.') };
+          if (Array.isArray(command) && command.every((c) => typeof c === 'string')) return { success: true, value: { command } };
+          return { success: false, error: new Error('Expected an object with command property as string or array of strings.') };
         },
-      } satisfies Schema<{ command: string }> as Schema<{ command: string }>,
+      } satisfies Schema<{ command: string | string[] }> as Schema<{ command: string | string[] }>,
       title: existingCommand.description,
-      needsApproval: (input) => {
-        const { command, options } = parse(input.command);
-        if (typeof command.needsApproval === 'function') return command.needsApproval(options);
-        return !!command.needsApproval;
+      needsApproval: async (input) => {
+        const { command, options } = await parseAsync(input.command);
+        return needsApproval(command, options);
       },
-      execute: (input) => {
-        return cli(input.command).result;
+      execute: async (input, { abortSignal }) => {
+        // The AI SDK asks the user to approve the tool call based on `needsApproval`, so the command is not confirmed again
+        // Results are returned as they are, unless a format is asked for with --output
+        let text: string | undefined;
+        const output = { print: (printed: string) => void (text = printed) };
+        const res = await runCli(input.command, { signal: abortSignal, handleSignals: false }, { approved: true, output });
+        const result = await res.result;
+        return text ?? result;
       },
     };
   };
@@ -620,9 +1369,32 @@ export function createPadroneCommandBuilder<TBuilder extends PadroneProgram = Pa
     action(handler = noop) {
       return createPadroneCommandBuilder({ ...existingCommand, handler }) as any;
     },
+    render(renderer) {
+      return createPadroneCommandBuilder({ ...existingCommand, render: renderer }) as any;
+    },
+    fallback(handler) {
+      return createPadroneCommandBuilder({ ...existingCommand, fallback: handler }) as any;
+    },
+    use(middleware) {
+      return createPadroneCommandBuilder({ ...existingCommand, middleware: [...(existingCommand.middleware ?? []), middleware] }) as any;
+    },
+    context(factory) {
+      // Factories registered on the same command are chained, so each one sees the services of the previous ones
+      const previous = existingCommand.context;
+      const context = previous
+        ? (parentContext: object) => {
+            const services = previous(parentContext);
+            return { ...services, ...factory({ ...parentContext, ...services } as any) };
+          }
+        : factory;
+      return createPadroneCommandBuilder({ ...existingCommand, context }) as any;
+    },
     command: <TName extends string, TBuilder extends PadroneCommandBuilder<TName, string, any, any, AnyPadroneCommand[], any>>(
       nameOrNames: TName | readonly [TName, ...string[]],
-      builderFn?: (builder: PadroneCommandBuilder<TName>) => TBuilder,
+      builderFn?:
+        | ((builder: PadroneCommandBuilder<TName>) => TBuilder)
+        | PadroneLazyLoader<PadroneCommandModule<(builder: any) => TBuilder>>,
+      config?: PadroneCommandConfig,
     ) => {
       // Extract name and aliases from the input
       const name = (Array.isArray(nameOrNames) ? nameOrNames[0] : nameOrNames) as TName;
@@ -635,23 +1407,75 @@ export function createPadroneCommandBuilder<TBuilder extends PadroneProgram = Pa
         parent: existingCommand,
         '~types': {} as any,
       } satisfies PadroneCommand<TName, any>;
+      if (builderFn && typeof builderFn !== 'function') {
+        const loader = builderFn['~lazy'];
+        const lazyCommand: AnyPadroneCommand = { ...initialCommand, ...config, lazy: true };
+        let loading: Promise<void> | undefined;
+
+        // The placeholder is filled in place, so that the program and the parents of other commands see the loaded command
+        lazyCommand.load = () =>
+          (loading ??= loader().then(
+            (module) => {
+              const loadedBuilderFn = typeof module === 'function' ? module : module.default;
+              const builder = createPadroneCommandBuilder({ ...initialCommand, ...config });
+              const loadedCommand = (loadedBuilderFn(builder) as unknown as typeof builder)?.[commandSymbol] ?? builder[commandSymbol];
+              // The placeholder keeps its parent, which has adopted it since, and adopts the subcommands of the loaded command
+              Object.assign(lazyCommand, loadedCommand, { lazy: true, parent: lazyCommand.parent });
+              delete lazyCommand.load;
+              adoptCommands(lazyCommand);
+            },
+            (error) => {
+              // A failed import can be tried again
+              loading = undefined;
+              throw error;
+            },
+          ));
+
+        return createPadroneCommandBuilder({ ...existingCommand, commands: [...(existingCommand.commands || []), lazyCommand] }) as any;
+      }
+
       const builder = createPadroneCommandBuilder(initialCommand);
 
       const commandObj =
-        ((builderFn?.(builder as any) as unknown as typeof builder)?.[commandSymbol] as AnyPadroneCommand) ?? initialCommand;
+        ((
+          (builderFn as ((builder: PadroneCommandBuilder<TName>) => TBuilder) | undefined)?.(builder as any) as unknown as typeof builder
+        )?.[commandSymbol] as AnyPadroneCommand) ?? initialCommand;
+      return createPadroneCommandBuilder({ ...existingCommand, commands: [...(existingCommand.commands || []), commandObj] }) as any;
+    },
+    mount(nameOrNames, program) {
+      const name = Array.isArray(nameOrNames) ? nameOrNames[0] : (nameOrNames as string);
+      const aliases = Array.isArray(nameOrNames) && nameOrNames.length > 1 ? (nameOrNames.slice(1) as string[]) : undefined;
+
+      const commandObj = remountCommand(
+        (program as typeof program & { [commandSymbol]: AnyPadroneCommand })[commandSymbol],
+        existingCommand,
+        name,
+        aliases,
+      );
       return createPadroneCommandBuilder({ ...existingCommand, commands: [...(existingCommand.commands || []), commandObj] }) as any;
     },
 
     run,
     find,
+    load,
+    plugin(pluginOrName: PadronePlugin | string, config?: false | { flags?: Record<string, string[]> }) {
+      const installed = existingCommand.plugins ?? [];
+      const plugins =
+        typeof pluginOrName === 'string' ? configurePlugin(installed, pluginOrName, config ?? {}) : installPlugin(installed, pluginOrName);
+      return createPadroneCommandBuilder({ ...existingCommand, plugins }) as any;
+    },
     parse,
+    parseAsync,
     stringify,
     cli,
+    cliAsync,
+    interactive,
+    repl,
     tool,
 
-    api() {
+    api(services) {
       function buildApi(command: AnyPadroneCommand) {
-        const runCommand = ((options) => run(command, options).result) as PadroneAPI<AnyPadroneCommand>;
+        const runCommand = ((options) => run(command, options, services).result) as PadroneAPI<AnyPadroneCommand>;
         if (!command.commands) return runCommand;
         for (const cmd of command.commands) runCommand[cmd.name] = buildApi(cmd);
         return runCommand;
@@ -666,7 +1490,7 @@ export function createPadroneCommandBuilder<TBuilder extends PadroneProgram = Pa
         : typeof command === 'string'
           ? findCommandByName(command, existingCommand.commands)
           : (command as AnyPadroneCommand);
-      if (!commandObj) throw new Error(`Command "${command ?? ''}" not found`);
+      if (!commandObj) throw new PadroneUnknownCommandError(String(command ?? ''));
       return generateHelp(existingCommand, commandObj, options);
     },
 
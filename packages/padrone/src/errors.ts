@@ -0,0 +1,267 @@
+import type { StandardSchemaV1 } from '@standard-schema/spec';
+import { createColorizer } from './colorizer.ts';
+import { formatSuggestion, type PadroneSuggestion } from './suggestions.ts';
+import { formatValidationReport, type PadroneValidationIssue } from './validation.ts';
+
+/**
+ * Exit codes used by Padrone errors when `cli()` exits the process.
+ * Usage errors follow the shell convention of `2`, configuration errors use `EX_CONFIG` from `sysexits.h`.
+ */
+export const PadroneExitCode = {
+  /** A generic failure, such as an error thrown by a command's action. */
+  failure: 1,
+  /** The command line was invalid: unknown command, invalid options, unexpected arguments. */
+  usage: 2,
+  /** The config file or environment variables were invalid. */
+  config: 78,
+  /** The run was aborted, e.g. by Ctrl-C. Follows the shell convention of `128 + SIGINT`. */
+  aborted: 130,
+} as const;
+
+export type PadroneErrorOptions = {
+  /** The process exit code for this error. Defaults to `1`. */
+  exitCode?: number;
+  /** The path of the command the error relates to. */
+  command?: string;
+  /** The underlying error, if any. */
+  cause?: unknown;
+};
+
+/**
+ * Base class for all errors thrown by Padrone.
+ * Carries an exit code and the command path, and its message is meant to be shown to the user as-is.
+ */
+export class PadroneError extends Error {
+  override name = 'PadroneError';
+  /** The process exit code `cli()` uses when exiting because of this error. */
+  readonly exitCode: number;
+  /** The path of the command the error relates to, or an empty string for the program itself. */
+  readonly command: string;
+
+  constructor(message: string, options: PadroneErrorOptions = {}) {
+    super(message, options.cause !== undefined ? { cause: options.cause } : undefined);
+    this.exitCode = options.exitCode ?? PadroneExitCode.failure;
+    this.command = options.command ?? '';
+  }
+}
+
+/**
+ * Thrown when a command is looked up by name and does not exist, e.g. a mistyped subcommand in the input.
+ */
+export class PadroneUnknownCommandError extends PadroneError {
+  override name = 'PadroneUnknownCommandError';
+
+  /** Close matches for the mistyped command. */
+  readonly suggestions: PadroneSuggestion[];
+
+  constructor(command: string, suggestions: PadroneSuggestion[] = []) {
+    // A suggestion already names the unknown command, e.g. `Unknown command "deplyo". Did you mean "deploy"?`
+    const lines = suggestions.length ? suggestions.map(formatSuggestion) : [`Command "${command}" not found`];
+    super(lines.join('\n'), { exitCode: PadroneExitCode.usage, command });
+    this.suggestions = suggestions;
+  }
+}
+
+/**
+ * Thrown when the selected command has no action to run, e.g. a parent command invoked without a subcommand.
+ */
+export class PadroneMissingHandlerError extends PadroneError {
+  override name = 'PadroneMissingHandlerError';
+  /** Close matches for mistyped options of the command. */
+  readonly suggestions: PadroneSuggestion[];
+
+  constructor(command: string, suggestions: PadroneSuggestion[] = []) {
+    const target = command ? `Command "${command}"` : 'Program';
+    const lines = [`${target} has no handler`, ...suggestions.map(formatSuggestion)];
+    super(lines.join('\n'), { exitCode: PadroneExitCode.usage, command });
+    this.suggestions = suggestions;
+  }
+}
+
+/**
+ * Thrown when the options of a command fail schema validation.
+ */
+export class PadroneValidationError extends PadroneError {
+  override name = 'PadroneValidationError';
+  /** The issues reported by the options schema. */
+  readonly issues: readonly StandardSchemaV1.Issue[];
+  /** The issues mapped to the CLI spelling of each option, with the received value and the expected type. */
+  readonly details: PadroneValidationIssue[];
+
+  constructor(command: string, issues: readonly StandardSchemaV1.Issue[], details?: PadroneValidationIssue[]) {
+    const target = command ? `command "${command}"` : 'program';
+    const message = details
+      ? formatValidationReport(command, details, createColorizer(false))
+      : `Invalid options for ${target}:\n${formatIssues(issues)}`;
+    super(message, { exitCode: PadroneExitCode.usage, command });
+    this.issues = issues;
+    this.details = details ?? [];
+  }
+}
+
+/**
+ * Thrown when the config file data fails the config schema validation.
+ */
+export class PadroneConfigError extends PadroneError {
+  override name = 'PadroneConfigError';
+  /** The issues reported by the config schema. */
+  readonly issues: readonly StandardSchemaV1.Issue[];
+
+  constructor(command: string, issues: readonly StandardSchemaV1.Issue[]) {
+    super(`Invalid config file:\n${formatIssues(issues)}`, { exitCode: PadroneExitCode.config, command });
+    this.issues = issues;
+  }
+}
+
+/**
+ * Thrown when the environment variables fail the env schema validation.
+ */
+export class PadroneEnvError extends PadroneError {
+  override name = 'PadroneEnvError';
+  /** The issues reported by the env schema. */
+  readonly issues: readonly StandardSchemaV1.Issue[];
+
+  constructor(command: string, issues: readonly StandardSchemaV1.Issue[]) {
+    super(`Invalid environment variables:\n${formatIssues(issues)}`, { exitCode: PadroneExitCode.config, command });
+    this.issues = issues;
+  }
+}
+
+/**
+ * Thrown by `cli()` when a command's action throws. The original error is available as `cause`.
+ */
+export class PadroneActionError extends PadroneError {
+  override name = 'PadroneActionError';
+
+  constructor(command: string, cause: unknown) {
+    super(cause instanceof Error ? cause.message : String(cause), { exitCode: PadroneExitCode.failure, command, cause });
+  }
+}
+
+/**
+ * Thrown by `cli()` when a command's action fails after its run was aborted, e.g. by Ctrl-C or the `signal` option.
+ * The error of the action is available as `cause`.
+ */
+export class PadroneAbortError extends PadroneError {
+  override name = 'PadroneAbortError';
+
+  constructor(command: string, cause: unknown) {
+    const target = command ? `Command "${command}"` : 'Program';
+    super(`${target} was aborted`, { exitCode: PadroneExitCode.aborted, command, cause });
+  }
+}
+
+/**
+ * Thrown by `cli()` when a command that needs approval is not confirmed by the user,
+ * or cannot be confirmed because there is no terminal to ask on and `--yes` was not passed.
+ */
+export class PadroneApprovalError extends PadroneError {
+  override name = 'PadroneApprovalError';
+
+  constructor(command: string, declined: boolean) {
+    const target = command ? `Command "${command}"` : 'Program';
+    super(declined ? `${target} was not confirmed` : `${target} needs confirmation. Pass --yes to run it without a prompt.`, {
+      exitCode: PadroneExitCode.failure,
+      command,
+    });
+  }
+}
+
+/**
+ * Thrown by `cli()` when an external command exits with a non-zero code, which `cli()` exits with in turn.
+ */
+export class PadroneExternalCommandError extends PadroneError {
+  override name = 'PadroneExternalCommandError';
+  /** The path of the executable that was run. */
+  readonly file: string;
+
+  constructor(command: string, file: string, exitCode: number) {
+    super(`Command "${command}" exited with code ${exitCode}`, { exitCode, command });
+    this.file = file;
+  }
+}
+
+/**
+ * Thrown in strict mode when the input contains options that are not defined in the command's schema,
+ * or more positional arguments than the command accepts.
+ */
+export class PadroneStrictError extends PadroneError {
+  override name = 'PadroneStrictError';
+  /** Unknown options as they were spelled on the command line (e.g. `--dryrun`, `-x`). */
+  readonly unknownOptions: string[];
+  /** Positional arguments that were not consumed by the command. */
+  readonly unusedArgs: string[];
+
+  /** Close matches for the unknown options and mistyped subcommands. */
+  readonly suggestions: PadroneSuggestion[];
+
+  constructor(command: string, unknownOptions: string[], unusedArgs: string[], suggestions: PadroneSuggestion[] = []) {
+    const target = command ? `command "${command}"` : 'program';
+    const plural = (items: string[]) => (items.length > 1 ? 's' : '');
+    const lines: string[] = [];
+    if (unknownOptions.length) lines.push(`Unknown option${plural(unknownOptions)} for ${target}: ${unknownOptions.join(', ')}`);
+    if (unusedArgs.length) lines.push(`Unexpected argument${plural(unusedArgs)} for ${target}: ${unusedArgs.join(', ')}`);
+    lines.push(...suggestions.map(formatSuggestion));
+    super(lines.join('\n'), { exitCode: PadroneExitCode.usage, command });
+
+    this.unknownOptions = unknownOptions;
+    this.unusedArgs = unusedArgs;
+    this.suggestions = suggestions;
+  }
+}
+
+/**
+ * Thrown when a cluster of short flags, such as `-abc`, contains a letter that is not a flag of the command.
+ */
+export class PadroneUnknownFlagError extends PadroneError {
+  override name = 'PadroneUnknownFlagError';
+  /** The unknown flag, e.g. `-x`. */
+  readonly flag: string;
+  /** The cluster as it was spelled on the command line, e.g. `-abx`. */
+  readonly cluster: string;
+  /** Close matches for the cluster, when it looks like a mistyped long option (e.g. `-dryrun` for `--dry-run`). */
+  readonly suggestions: PadroneSuggestion[];
+
+  constructor(command: string, flag: string, cluster: string, suggestions: PadroneSuggestion[] = []) {
+    const target = command ? `command "${command}"` : 'program';
+    const lines = [`Unknown flag "${flag}" in "${cluster}" for ${target}`, ...suggestions.map(formatSuggestion)];
+    super(lines.join('\n'), { exitCode: PadroneExitCode.usage, command });
+
+    this.flag = flag;
+    this.cluster = cluster;
+    this.suggestions = suggestions;
+  }
+}
+
+/**
+ * Thrown when a flag of a plugin is given a value that it does not accept, e.g. `--output xml`.
+ */
+export class PadroneFlagValueError extends PadroneError {
+  override name = 'PadroneFlagValueError';
+  /** The flag by its long name, e.g. `--output`. */
+  readonly flag: string;
+  /** The value given to the flag. */
+  readonly value: string;
+  /** The values that the flag accepts. */
+  readonly allowed: string[];
+
+  constructor(flag: string, value: string, allowed: string[]) {
+    super(`Invalid value "${value}" for ${flag}, expected one of: ${allowed.join(', ')}`, { exitCode: PadroneExitCode.usage });
+
+    this.flag = flag;
+    this.value = value;
+    this.allowed = allowed;
+  }
+}
+
+/**
+ * Formats schema issues as an indented list, e.g. `  - server.port: Expected number`.
+ */
+function formatIssues(issues: readonly StandardSchemaV1.Issue[]): string {
+  return issues
+    .map((issue) => {
+      const path = issue.path?.map((segment) => String(typeof segment === 'object' ? segment.key : segment)).join('.');
+      return `  - ${path || 'root'}: ${issue.message}`;
+    })
+    .join('\n');
+}
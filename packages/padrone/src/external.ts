@@ -0,0 +1,125 @@
+import { PadroneExternalCommandError } from './errors.ts';
+import type { AnyPadroneCommand, PadroneActionContext } from './types.ts';
+
+/**
+ * An executable on the PATH that runs as a subcommand, e.g. `mycli-foo` for `mycli foo`.
+ */
+export type PadroneExternalCommand = {
+  name: string;
+  /** The path of the executable. */
+  file: string;
+};
+
+/**
+ * Finds the external commands of a command that has them enabled, in the order of the PATH.
+ * Executables named like a registered subcommand are left out, as are executables that appear again later on the PATH.
+ */
+export function findExternalCommands(command: AnyPadroneCommand): PadroneExternalCommand[] {
+  const prefix = command.externalCommands;
+  if (!prefix || typeof process === 'undefined') return [];
+
+  const { readdirSync } = require('node:fs') as typeof import('node:fs');
+  const { join } = require('node:path') as typeof import('node:path');
+
+  const found = new Map<string, string>();
+  for (const dir of getPathDirs()) {
+    let entries: string[];
+    try {
+      entries = readdirSync(dir);
+    } catch {
+      // Directories on the PATH that do not exist are skipped, like shells do
+      continue;
+    }
+    for (const entry of entries) {
+      if (!entry.startsWith(prefix)) continue;
+      const name = stripExecutableExtension(entry.slice(prefix.length));
+      if (!name || found.has(name) || isRegistered(command, name)) continue;
+      const file = join(dir, entry);
+      if (isExecutable(file)) found.set(name, file);
+    }
+  }
+
+  return [...found].map(([name, file]) => ({ name, file })).sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Finds the executable that runs an unknown subcommand of a command that has external commands enabled.
+ */
+export function findExternalCommand(command: AnyPadroneCommand, name: string): PadroneExternalCommand | undefined {
+  const prefix = command.externalCommands;
+  if (!prefix || typeof process === 'undefined' || isRegistered(command, name)) return undefined;
+
+  const { join } = require('node:path') as typeof import('node:path');
+  const extensions = process.platform === 'win32' ? ['', ...getPathExtensions()] : [''];
+
+  for (const dir of getPathDirs()) {
+    for (const extension of extensions) {
+      const file = join(dir, `${prefix}${name}${extension}`);
+      if (isExecutable(file)) return { name, file };
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Runs an external command with the arguments after its name, the environment of the process and the terminal of the program.
+ * The executable is killed when the run is aborted.
+ * @returns A promise that resolves with `0` when the executable succeeds
+ * @throws PadroneExternalCommandError when the executable exits with another code
+ */
+export function runExternalCommand(external: PadroneExternalCommand, args: string[], context: PadroneActionContext): Promise<number> {
+  const { spawn } = require('node:child_process') as typeof import('node:child_process');
+  const { constants } = require('node:os') as typeof import('node:os');
+
+  return new Promise((resolve, reject) => {
+    const child = spawn(external.file, args, {
+      stdio: 'inherit',
+      env: process.env,
+      signal: context.signal,
+      // Batch files can only be run by a shell on Windows
+      shell: process.platform === 'win32' && /\.(bat|cmd)$/i.test(external.file),
+    });
+    child.on('error', reject);
+    child.on('close', (code, signal) => {
+      // Like shells, an executable killed by a signal exits with 128 plus the number of the signal
+      const exitCode = code ?? 128 + (signal ? (constants.signals[signal] ?? 0) : 0);
+      if (exitCode === 0) resolve(exitCode);
+      else reject(new PadroneExternalCommandError(context.command.path, external.file, exitCode));
+    });
+  });
+}
+
+function isRegistered(command: AnyPadroneCommand, name: string): boolean {
+  return !!command.commands?.some((cmd) => cmd.name === name || cmd.aliases?.includes(name));
+}
+
+function getPathDirs(): string[] {
+  const { delimiter } = require('node:path') as typeof import('node:path');
+  return (process.env.PATH ?? '').split(delimiter).filter(Boolean);
+}
+
+function getPathExtensions(): string[] {
+  return (process.env.PATHEXT ?? '.COM;.EXE;.BAT;.CMD').split(';').filter(Boolean);
+}
+
+/**
+ * Removes the extension that makes a file executable on Windows, e.g. `.exe`, or returns an empty name for other files.
+ * Names are kept as-is on other platforms.
+ */
+function stripExecutableExtension(name: string): string {
+  if (process.platform !== 'win32') return name;
+  const extension = getPathExtensions().find((ext) => name.toLowerCase().endsWith(ext.toLowerCase()));
+  return extension ? name.slice(0, -extension.length) : '';
+}
+
+function isExecutable(file: string): boolean {
+  const { accessSync, constants, statSync } = require('node:fs') as typeof import('node:fs');
+  try {
+    if (!statSync(file).isFile()) return false;
+    // Windows has no executable bit, files are executable by their extension
+    if (process.platform !== 'win32') accessSync(file, constants.X_OK);
+    return true;
+  } catch {
+    return false;
+  }
+}
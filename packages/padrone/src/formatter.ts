@@ -1,4 +1,4 @@
-import { createColorizer } from './colorizer.ts';
+import { createColorizer, supportsColor } from './colorizer.ts';
 
 export type HelpFormat = 'text' | 'ansi' | 'console' | 'markdown' | 'html' | 'json';
 export type HelpDetail = 'minimal' | 'standard' | 'full';
@@ -38,8 +38,26 @@ export type HelpOptionInfo = {
   variadic?: boolean;
   /** Whether this option is a boolean (shown as --[no-]option) */
   negatable?: boolean;
+  /** Whether this option is a counter that increments on each occurrence (e.g. -vvv) */
+  count?: boolean;
   /** Config file key that maps to this option */
   configKey?: string;
+  /** Options that cannot be used together with this one */
+  conflicts?: string[];
+  /** Options that must be set when this one is */
+  requires?: string[];
+  /** Values this option sets for other options */
+  implies?: Record<string, unknown>;
+};
+
+/**
+ * Information about a named group of options, shown as its own section.
+ */
+export type HelpOptionGroupInfo = {
+  name: string;
+  /** Whether exactly one or at most one of the options can be set */
+  exclusive?: 'exactly-one' | 'at-most-one';
+  options: HelpOptionInfo[];
 };
 
 /**
@@ -52,6 +70,17 @@ export type HelpSubcommandInfo = {
   aliases?: string[];
   deprecated?: boolean | string;
   hidden?: boolean;
+  /** Whether the subcommand runs when its parent is run without one */
+  default?: boolean;
+};
+
+/**
+ * An executable on the PATH that runs as a subcommand.
+ */
+export type HelpExternalCommandInfo = {
+  name: string;
+  /** The path of the executable */
+  file: string;
 };
 
 /**
@@ -77,13 +106,21 @@ export type HelpInfo = {
     hasSubcommands: boolean;
     hasArguments: boolean;
     hasOptions: boolean;
+    /** Name of the option that collects arguments after `--`, if any */
+    passthrough?: string;
   };
   /** List of subcommands */
   subcommands?: HelpSubcommandInfo[];
+  /** Executables on the PATH that run as subcommands */
+  externalCommands?: HelpExternalCommandInfo[];
   /** Positional arguments */
   arguments?: HelpArgumentInfo[];
-  /** Options/flags (only visible ones, hidden filtered out) */
+  /** Options/flags that are not in a group (only visible ones, hidden filtered out) */
   options?: HelpOptionInfo[];
+  /** Named groups of options, in the order they are declared */
+  optionGroups?: HelpOptionGroupInfo[];
+  /** Global options inherited from parent commands (only visible ones, hidden filtered out) */
+  globalOptions?: HelpOptionInfo[];
   /** Full help info for nested commands (used in 'full' detail mode) */
   nestedCommands?: HelpInfo[];
 };
@@ -274,6 +311,7 @@ function createGenericFormatter(styler: Styler, layout: LayoutConfig): Formatter
       info.usage.hasSubcommands ? styler.meta('[command]') : '',
       info.usage.hasArguments ? styler.meta('[args...]') : '',
       info.usage.hasOptions ? styler.meta('[options]') : '',
+      info.usage.passthrough ? styler.meta(`[-- ${info.usage.passthrough}...]`) : '',
     ];
     return [`${usageLabel} ${join(usageParts)}`];
   }
@@ -303,6 +341,7 @@ function createGenericFormatter(styler: Styler, layout: LayoutConfig): Formatter
       if (displayText) {
         lineParts.push(isDeprecated ? styler.deprecated(displayText) : styler.description(displayText));
       }
+      if (subCmd.default) lineParts.push(styler.meta(' (default)'));
       if (isDeprecated) {
         const deprecatedMeta =
           typeof subCmd.deprecated === 'string' ? styler.meta(` (deprecated: ${subCmd.deprecated})`) : styler.meta(' (deprecated)');
@@ -317,6 +356,21 @@ function createGenericFormatter(styler: Styler, layout: LayoutConfig): Formatter
     return lines;
   }
 
+  function formatExternalCommandsSection(info: HelpInfo): string[] {
+    const lines: string[] = [];
+    const externalCommands = info.externalCommands!;
+
+    lines.push(styler.label('External Commands:'));
+
+    const maxNameLength = Math.max(...externalCommands.map((c) => c.name.length));
+    for (const externalCmd of externalCommands) {
+      const padding = ' '.repeat(maxNameLength - externalCmd.name.length + 2);
+      lines.push(indent(1) + styler.command(externalCmd.name) + padding + styler.meta(externalCmd.file));
+    }
+
+    return lines;
+  }
+
   function formatArgumentsSection(info: HelpInfo): string[] {
     const lines: string[] = [];
     const args = info.arguments!;
@@ -337,11 +391,10 @@ function createGenericFormatter(styler: Styler, layout: LayoutConfig): Formatter
     return lines;
   }
 
-  function formatOptionsSection(info: HelpInfo): string[] {
+  function formatOptionsSection(label: string, options: HelpOptionInfo[], note?: string): string[] {
     const lines: string[] = [];
-    const options = info.options!;
 
-    lines.push(styler.label('Options:'));
+    lines.push(note ? join([styler.label(label), styler.meta(note)]) : styler.label(label));
 
     const maxNameLength = Math.max(...options.map((opt) => opt.name.length));
 
@@ -355,11 +408,12 @@ function createGenericFormatter(styler: Styler, layout: LayoutConfig): Formatter
       const formattedOptionName = isDeprecated ? styler.deprecated(fullOptionName) : styler.option(fullOptionName);
 
       const parts: string[] = [formattedOptionName];
-      if (opt.type) parts.push(styler.type(`<${opt.type}>`));
+      if (opt.type && !opt.count) parts.push(styler.type(`<${opt.type}>`));
       if (opt.optional && !opt.deprecated) parts.push(styler.meta('(optional)'));
       if (opt.default !== undefined) parts.push(styler.meta(`(default: ${String(opt.default)})`));
       if (opt.enum) parts.push(styler.meta(`(choices: ${opt.enum.join(', ')})`));
       if (opt.variadic) parts.push(styler.meta('(repeatable)'));
+      if (opt.count) parts.push(styler.meta('(counted)'));
       if (isDeprecated) {
         const deprecatedMeta =
           typeof opt.deprecated === 'string' ? styler.meta(`(deprecated: ${opt.deprecated})`) : styler.meta('(deprecated)');
@@ -382,6 +436,33 @@ function createGenericFormatter(styler: Styler, layout: LayoutConfig): Formatter
         lines.push(indent(3) + join(configParts));
       }
 
+      // Relations to other options
+      if (opt.conflicts?.length) {
+        const conflictParts: string[] = [
+          styler.example('Conflicts:'),
+          styler.exampleValue(opt.conflicts.map((name) => `--${name}`).join(', ')),
+        ];
+        lines.push(indent(3) + join(conflictParts));
+      }
+      if (opt.requires?.length) {
+        const requireParts: string[] = [
+          styler.example('Requires:'),
+          styler.exampleValue(opt.requires.map((name) => `--${name}`).join(', ')),
+        ];
+        lines.push(indent(3) + join(requireParts));
+      }
+      if (opt.implies) {
+        const implied = Object.entries(opt.implies).map(([name, value]) =>
+          value === true
+            ? `--${name}`
+            : value === false
+              ? `--no-${name}`
+              : `--${name}=${typeof value === 'string' ? value : JSON.stringify(value)}`,
+        );
+        const impliesParts: string[] = [styler.example('Implies:'), styler.exampleValue(implied.join(', '))];
+        lines.push(indent(3) + join(impliesParts));
+      }
+
       // Examples line
       if (opt.examples && opt.examples.length > 0) {
         const exampleValues = opt.examples.map((example) => (typeof example === 'string' ? example : JSON.stringify(example))).join(', ');
@@ -433,6 +514,12 @@ function createGenericFormatter(styler: Styler, layout: LayoutConfig): Formatter
         lines.push('');
       }
 
+      // External commands section
+      if (info.externalCommands && info.externalCommands.length > 0) {
+        lines.push(...formatExternalCommandsSection(info));
+        lines.push('');
+      }
+
       // Arguments section
       if (info.arguments && info.arguments.length > 0) {
         lines.push(...formatArgumentsSection(info));
@@ -441,7 +528,20 @@ function createGenericFormatter(styler: Styler, layout: LayoutConfig): Formatter
 
       // Options section
       if (info.options && info.options.length > 0) {
-        lines.push(...formatOptionsSection(info));
+        lines.push(...formatOptionsSection('Options:', info.options));
+        lines.push('');
+      }
+
+      // Option group sections
+      for (const group of info.optionGroups ?? []) {
+        const constraint = group.exclusive === 'exactly-one' ? '(exactly one)' : group.exclusive === 'at-most-one' ? '(at most one)' : '';
+        lines.push(...formatOptionsSection(`${group.name}:`, group.options, constraint));
+        lines.push('');
+      }
+
+      // Global options section
+      if (info.globalOptions && info.globalOptions.length > 0) {
+        lines.push(...formatOptionsSection('Global Options:', info.globalOptions));
         lines.push('');
       }
 
@@ -473,18 +573,6 @@ function createJsonFormatter(): Formatter {
   };
 }
 
-// ============================================================================
-// Formatter Factory
-// ============================================================================
-
-function shouldUseAnsi(): boolean {
-  if (typeof process === 'undefined') return false;
-  if (process.env.NO_COLOR) return false;
-  if (process.env.CI) return false;
-  if (process.stdout && typeof process.stdout.isTTY === 'boolean') return process.stdout.isTTY;
-  return false;
-}
-
 // ============================================================================
 // Minimal Formatter
 // ============================================================================
@@ -499,6 +587,7 @@ function createMinimalFormatter(): Formatter {
       if (info.usage.hasSubcommands) parts.push('[command]');
       if (info.usage.hasArguments) parts.push('[args...]');
       if (info.usage.hasOptions) parts.push('[options]');
+      if (info.usage.passthrough) parts.push(`[-- ${info.usage.passthrough}...]`);
       return parts.join(' ');
     },
   };
@@ -507,7 +596,7 @@ function createMinimalFormatter(): Formatter {
 export function createFormatter(format: HelpFormat | 'auto', detail: HelpDetail = 'standard'): Formatter {
   if (detail === 'minimal') return createMinimalFormatter();
   if (format === 'json') return createJsonFormatter();
-  if (format === 'ansi' || (format === 'auto' && shouldUseAnsi())) return createGenericFormatter(createAnsiStyler(), createTextLayout());
+  if (format === 'ansi' || (format === 'auto' && supportsColor())) return createGenericFormatter(createAnsiStyler(), createTextLayout());
   if (format === 'console') return createGenericFormatter(createConsoleStyler(), createTextLayout());
   if (format === 'markdown') return createGenericFormatter(createMarkdownStyler(), createMarkdownLayout());
   if (format === 'html') return createGenericFormatter(createHtmlStyler(), createHtmlLayout());
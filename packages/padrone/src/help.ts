@@ -1,13 +1,15 @@
 import type { StandardJSONSchemaV1 } from '@standard-schema/spec';
+import { findExternalCommands } from './external.ts';
 import {
   createFormatter,
   type HelpArgumentInfo,
   type HelpDetail,
   type HelpFormat,
   type HelpInfo,
+  type HelpOptionGroupInfo,
   type HelpOptionInfo,
 } from './formatter.ts';
-import { extractSchemaMetadata, type PadroneMeta, parsePositionalConfig } from './options.ts';
+import { extractSchemaMetadata, type PadroneMeta, parseOptionGroups, parsePositionalConfig } from './options.ts';
 import type { AnyPadroneCommand } from './types.ts';
 import { getRootCommand } from './utils.ts';
 
@@ -62,7 +64,10 @@ function extractPositionalArgsInfo(
   return { args, positionalNames };
 }
 
-function extractOptionsInfo(schema: StandardJSONSchemaV1, meta?: PadroneMeta, positionalNames?: Set<string>) {
+/**
+ * Extracts the options of a schema as they are shown in help. Options named in `positionalNames` are skipped.
+ */
+export function extractOptionsInfo(schema: StandardJSONSchemaV1, meta?: PadroneMeta, positionalNames?: Set<string>) {
   const result: HelpOptionInfo[] = [];
   if (!schema) return result;
 
@@ -131,6 +136,7 @@ function extractOptionsInfo(schema: StandardJSONSchemaV1, meta?: PadroneMeta, po
           examples: optMeta?.examples ?? prop?.examples,
           variadic: propType === 'array', // Arrays are always variadic
           negatable: isNegatable,
+          count: optMeta?.count ?? prop?.count,
         });
       }
     }
@@ -141,6 +147,49 @@ function extractOptionsInfo(schema: StandardJSONSchemaV1, meta?: PadroneMeta, po
   return result;
 }
 
+/**
+ * Adds the aliases of each option and its relations to other options to its info.
+ */
+function mergeMetadata(optionsInfo: HelpOptionInfo[], { aliases, conflicts, requires, implies }: ReturnType<typeof extractSchemaMetadata>) {
+  const optMap: Record<string, HelpOptionInfo> = Object.fromEntries(optionsInfo.map((opt) => [opt.name, opt]));
+  for (const [alias, name] of Object.entries(aliases)) {
+    const opt = optMap[name];
+    if (!opt) continue;
+    opt.aliases = [...(opt.aliases || []), alias];
+  }
+  for (const opt of optionsInfo) {
+    if (conflicts[opt.name]) opt.conflicts = conflicts[opt.name];
+    if (requires[opt.name]) opt.requires = requires[opt.name];
+    if (implies[opt.name]) opt.implies = implies[opt.name];
+  }
+}
+
+/**
+ * Extract the global options that a command inherits from its parents, nearest parent first.
+ * Options that the command defines itself are left out, since they take precedence.
+ */
+function extractGlobalOptionsInfo(cmd: AnyPadroneCommand): HelpOptionInfo[] {
+  const result: HelpOptionInfo[] = [];
+  const seen = new Set(cmd.options ? extractOptionsInfo(cmd.options, cmd.meta).map((opt) => opt.name) : []);
+
+  for (let parent = cmd.parent; parent; parent = parent.parent) {
+    if (!parent.options) continue;
+    const metadata = extractSchemaMetadata(parent.options, parent.meta?.options);
+    if (metadata.globals.size === 0) continue;
+
+    const optionsInfo = extractOptionsInfo(parent.options, parent.meta).filter(
+      (opt) => metadata.globals.has(opt.name) && !seen.has(opt.name),
+    );
+    mergeMetadata(optionsInfo, metadata);
+    for (const opt of optionsInfo) {
+      seen.add(opt.name);
+      if (!opt.hidden) result.push(opt);
+    }
+  }
+
+  return result;
+}
+
 // ============================================================================
 // Core Help Info Builder
 // ============================================================================
@@ -161,6 +210,10 @@ function getHelpInfo(cmd: AnyPadroneCommand, detail: HelpOptions['detail'] = 'st
     : { args: [], positionalNames: new Set<string>() };
 
   const hasArguments = positionalArgs.length > 0;
+  const passthrough = cmd.meta?.passthrough;
+  const globalOptions = extractGlobalOptionsInfo(cmd);
+  // External commands are looked up on the PATH each time, so that newly installed ones are listed
+  const externalCommands = findExternalCommands(cmd);
 
   const helpInfo: HelpInfo = {
     name: commandName,
@@ -171,15 +224,19 @@ function getHelpInfo(cmd: AnyPadroneCommand, detail: HelpOptions['detail'] = 'st
     hidden: cmd.hidden,
     usage: {
       command: rootCmd === cmd ? commandName : `${rootCmd.name} ${commandName}`,
-      hasSubcommands: !!(cmd.commands && cmd.commands.length > 0),
+      hasSubcommands: !!(cmd.commands && cmd.commands.length > 0) || externalCommands.length > 0,
       hasArguments,
-      hasOptions: !!cmd.options,
+      hasOptions: !!cmd.options || globalOptions.length > 0,
+      passthrough,
     },
   };
 
   // Build subcommands info (filter out hidden commands unless showing full detail)
   if (cmd.commands && cmd.commands.length > 0) {
     const visibleCommands = detail === 'full' ? cmd.commands : cmd.commands.filter((c) => !c.hidden);
+    const defaultCommand = cmd.defaultCommand
+      ? cmd.commands.find((c) => c.name === cmd.defaultCommand || c.aliases?.includes(cmd.defaultCommand!))
+      : undefined;
     helpInfo.subcommands = visibleCommands.map((c) => {
       return {
         name: c.name,
@@ -188,6 +245,7 @@ function getHelpInfo(cmd: AnyPadroneCommand, detail: HelpOptions['detail'] = 'st
         aliases: c.aliases,
         deprecated: c.deprecated,
         hidden: c.hidden,
+        default: c === defaultCommand || undefined,
       };
     });
 
@@ -197,6 +255,10 @@ function getHelpInfo(cmd: AnyPadroneCommand, detail: HelpOptions['detail'] = 'st
     }
   }
 
+  if (externalCommands.length) {
+    helpInfo.externalCommands = externalCommands;
+  }
+
   // Build arguments info from positional options
   if (hasArguments) {
     helpInfo.arguments = positionalArgs;
@@ -204,22 +266,36 @@ function getHelpInfo(cmd: AnyPadroneCommand, detail: HelpOptions['detail'] = 'st
 
   // Build options info with aliases (excluding positional args)
   if (cmd.options) {
-    const optionsInfo = extractOptionsInfo(cmd.options, cmd.meta, positionalNames);
-    const optMap: Record<string, HelpOptionInfo> = Object.fromEntries(optionsInfo.map((opt) => [opt.name, opt]));
-
-    // Merge aliases into options
-    const { aliases } = extractSchemaMetadata(cmd.options, cmd.meta?.options);
-    for (const [alias, name] of Object.entries(aliases)) {
-      const opt = optMap[name];
-      if (!opt) continue;
-      opt.aliases = [...(opt.aliases || []), alias];
-    }
+    // The passthrough option is shown in usage as `[-- name...]` rather than as an option
+    const excludedNames = passthrough ? new Set([...positionalNames, passthrough]) : positionalNames;
+    const optionsInfo = extractOptionsInfo(cmd.options, cmd.meta, excludedNames);
+
+    // Merge aliases and relations into options
+    mergeMetadata(optionsInfo, extractSchemaMetadata(cmd.options, cmd.meta?.options));
 
     // Filter out hidden options
     const visibleOptions = optionsInfo.filter((opt) => !opt.hidden);
-    if (visibleOptions.length > 0) {
-      helpInfo.options = visibleOptions;
+
+    // Options in a group are shown in the section of their group rather than with the other options
+    const grouped = new Set<string>();
+    const optionGroups: HelpOptionGroupInfo[] = [];
+    for (const { name, options, exclusive } of parseOptionGroups(cmd.meta?.groups)) {
+      const groupOptions = visibleOptions.filter((opt) => options.includes(opt.name) && !grouped.has(opt.name));
+      for (const opt of groupOptions) grouped.add(opt.name);
+      if (groupOptions.length > 0) optionGroups.push({ name, ...(exclusive ? { exclusive } : {}), options: groupOptions });
+    }
+
+    const ungroupedOptions = visibleOptions.filter((opt) => !grouped.has(opt.name));
+    if (ungroupedOptions.length > 0) {
+      helpInfo.options = ungroupedOptions;
     }
+    if (optionGroups.length > 0) {
+      helpInfo.optionGroups = optionGroups;
+    }
+  }
+
+  if (globalOptions.length > 0) {
+    helpInfo.globalOptions = globalOptions;
   }
 
   return helpInfo;
@@ -1,11 +1,40 @@
-export { createPadrone } from './create.ts';
-export type { HelpArgumentInfo, HelpFormat, HelpInfo, HelpOptionInfo, HelpSubcommandInfo } from './formatter.ts';
+export { createPadrone, lazy } from './create.ts';
+export {
+  PadroneAbortError,
+  PadroneActionError,
+  PadroneApprovalError,
+  PadroneConfigError,
+  PadroneEnvError,
+  PadroneError,
+  type PadroneErrorOptions,
+  PadroneExitCode,
+  PadroneExternalCommandError,
+  PadroneFlagValueError,
+  PadroneMissingHandlerError,
+  PadroneStrictError,
+  PadroneUnknownCommandError,
+  PadroneUnknownFlagError,
+  PadroneValidationError,
+} from './errors.ts';
+export type {
+  HelpArgumentInfo,
+  HelpExternalCommandInfo,
+  HelpFormat,
+  HelpInfo,
+  HelpOptionGroupInfo,
+  HelpOptionInfo,
+  HelpSubcommandInfo,
+} from './formatter.ts';
 export type { HelpOptions } from './help.ts';
-export type { PadroneOptionsMeta } from './options.ts';
+export type { PadroneOptionsGroup, PadroneOptionsMeta } from './options.ts';
+export type { PadroneOutputFormat } from './output.ts';
+export type { PadronePromptStreams } from './prompt.ts';
+export type { PadroneSuggestion } from './suggestions.ts';
 export type {
   InferCommand,
   InferConfigInput,
   InferConfigOutput,
+  InferContext,
   InferEnvInput,
   InferEnvOutput,
   InferOptionsInput,
@@ -14,12 +43,25 @@ export type {
 export type {
   AnyPadroneCommand,
   AnyPadroneProgram,
+  PadroneActionContext,
+  PadroneCliOptions,
   PadroneCommand,
   PadroneCommandBuilder,
   PadroneCommandConfig,
   PadroneCommandResult,
+  PadroneInteractiveOptions,
+  PadroneLazyLoader,
+  PadroneMiddleware,
+  PadroneMiddlewareContext,
   PadroneParseOptions,
   PadroneParseResult,
+  PadronePlugin,
+  PadronePluginContext,
+  PadronePluginFlag,
+  PadronePluginOutputContext,
   PadroneProgram,
+  PadroneProgramOptions,
+  PadroneReplOptions,
   PadroneSchema,
 } from './types.ts';
+export type { PadroneValidationIssue } from './validation.ts';
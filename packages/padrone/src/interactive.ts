@@ -0,0 +1,109 @@
+import type { StandardSchemaV1 } from '@standard-schema/spec';
+import { PadroneApprovalError } from './errors.ts';
+import type { HelpOptionInfo } from './formatter.ts';
+import { extractOptionsInfo } from './help.ts';
+import { parsePositionalConfig } from './options.ts';
+import type { PadronePrompter } from './prompt.ts';
+import type { AnyPadroneCommand } from './types.ts';
+import type { MaybePromise } from './utils.ts';
+
+type ValidatedOptions = {
+  optionsResult: StandardSchemaV1.Result<unknown>;
+  preprocessedOptions: Record<string, unknown>;
+};
+
+/**
+ * Prompts for the required options of a command that are missing from the input, including positional arguments,
+ * and validates the input again with the answers. Options whose answers are invalid are asked again.
+ * @param validate - Validates the raw options with the answers merged in
+ */
+export async function promptForMissingOptions<T extends ValidatedOptions>(
+  command: AnyPadroneCommand,
+  validated: T,
+  rawOptions: Record<string, unknown>,
+  validate: (rawOptions: Record<string, unknown>) => MaybePromise<T>,
+  prompter: PadronePrompter,
+): Promise<T> {
+  const optionsInfo = command.options ? extractOptionsInfo(command.options, command.meta) : [];
+  let missing = optionsInfo.filter((option) => !option.optional && validated.preprocessedOptions[option.name] === undefined);
+  const answers: Record<string, unknown> = {};
+
+  while (missing.length) {
+    for (const option of missing) answers[option.name] = await promptForOption(command, option, prompter);
+    validated = await validate({ ...rawOptions, ...answers });
+
+    const issues = new Map<string, string>();
+    for (const issue of validated.optionsResult.issues ?? []) {
+      const segment = issue.path?.[0];
+      const key = String(typeof segment === 'object' ? segment.key : segment);
+      if (key in answers && !issues.has(key)) issues.set(key, issue.message);
+    }
+
+    missing = missing.filter((option) => issues.has(option.name));
+    for (const option of missing) prompter.print(`  ${issues.get(option.name)}`);
+  }
+
+  return validated;
+}
+
+/**
+ * Whether a command needs approval to run with the given options, as set by `needsApproval` in its config.
+ */
+export function needsApproval(command: AnyPadroneCommand, options: unknown): MaybePromise<boolean> {
+  return typeof command.needsApproval === 'function' ? command.needsApproval(options) : !!command.needsApproval;
+}
+
+/**
+ * Asks the user to confirm a command that needs approval. Declining is the default.
+ * @throws PadroneApprovalError when the user declines
+ */
+export async function confirmApproval(command: AnyPadroneCommand, prompter: PadronePrompter): Promise<void> {
+  const target = command.path ? `"${command.path}"` : 'the program';
+  if (!(await prompter.confirm(`Are you sure you want to run ${target}?`, false))) throw new PadroneApprovalError(command.path, true);
+}
+
+/**
+ * Asks for the value of an option with a prompt that matches its type in the JSON schema:
+ * a select for enums, a confirm for booleans, a multi-select for arrays of enums and text otherwise.
+ * Empty answers leave the option undefined, so that the schema reports it as missing or applies its default.
+ */
+async function promptForOption(command: AnyPadroneCommand, option: HelpOptionInfo, prompter: PadronePrompter): Promise<unknown> {
+  const positionalNames = command.meta?.positional ? parsePositionalConfig(command.meta.positional).map((p) => p.name) : [];
+  const label = positionalNames.includes(option.name) ? `<${option.name}>` : `--${option.name}`;
+  const message = option.description ? `${option.description} (${label})` : label;
+  const defaultValue = option.default;
+
+  if (option.enum) return prompter.select(message, option.enum.map(String), defaultValue === undefined ? undefined : String(defaultValue));
+  if (option.type === 'boolean') return prompter.confirm(message, typeof defaultValue === 'boolean' ? defaultValue : undefined);
+
+  if (option.type === 'array') {
+    const items = getPropertySchema(command, option.name)?.items as Record<string, any> | undefined;
+    const defaults = Array.isArray(defaultValue) ? defaultValue.map(String) : undefined;
+    if (Array.isArray(items?.enum)) return prompter.multiselect(message, items.enum.map(String), defaults);
+
+    const answer = await prompter.text(`${message}, separated by commas`, defaults?.join(', '));
+    if (!answer) return undefined;
+    return answer.split(',').map((item) => toSchemaType(item.trim(), items?.type));
+  }
+
+  const answer = await prompter.text(message, defaultValue === undefined ? undefined : String(defaultValue));
+  return answer ? toSchemaType(answer, option.type) : undefined;
+}
+
+/**
+ * Converts an answer to a number for numeric types. Answers that are not numbers are kept as-is for the schema to report.
+ */
+function toSchemaType(answer: string, type: unknown): unknown {
+  if (type !== 'number' && type !== 'integer') return answer;
+  const value = Number(answer);
+  return Number.isNaN(value) ? answer : value;
+}
+
+function getPropertySchema(command: AnyPadroneCommand, name: string): Record<string, any> | undefined {
+  try {
+    const jsonSchema = command.options?.['~standard'].jsonSchema.input({ target: 'draft-2020-12' }) as Record<string, any> | undefined;
+    return jsonSchema?.properties?.[name];
+  } catch {
+    return undefined;
+  }
+}
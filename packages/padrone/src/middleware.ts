@@ -0,0 +1,70 @@
+import type { AnyPadroneCommand, PadroneActionContext, PadroneMiddleware, PadroneMiddlewareContext, PadronePlugin } from './types.ts';
+import { isThenable, thenMaybe } from './utils.ts';
+
+/**
+ * Collects the middleware of a command and its ancestors, starting from the root.
+ */
+function collectMiddleware(command: AnyPadroneCommand): PadroneMiddleware[] {
+  const inherited = command.parent ? collectMiddleware(command.parent) : [];
+  return command.middleware?.length ? [...inherited, ...command.middleware] : inherited;
+}
+
+/**
+ * Normalizes thenables returned by hooks to promises, so they can be chained with `thenMaybe`.
+ */
+const toMaybePromise = (value: unknown) => (isThenable(value) ? Promise.resolve(value) : value);
+
+/**
+ * Runs the action of a command wrapped in the middleware of the command and its ancestors.
+ * `before` hooks run from the root down, `after` and `error` hooks from the command up.
+ * The run stays synchronous unless a hook or the action returns a promise.
+ * @param plugins - The plugins of the program, whose middleware wraps the middleware of the commands
+ */
+export function runWithMiddleware(
+  command: AnyPadroneCommand,
+  options: unknown,
+  actionContext: PadroneActionContext,
+  action: (options: any, context: PadroneActionContext) => unknown,
+  plugins: PadronePlugin[] = [],
+): unknown {
+  const pluginMiddleware = plugins.flatMap((plugin) => (plugin.middleware ? [plugin.middleware] : []));
+  const middleware = [...pluginMiddleware, ...collectMiddleware(command)];
+  if (!middleware.length) return action(options, actionContext);
+
+  const context: PadroneMiddlewareContext = { command, options, context: actionContext, state: {} };
+  const next = (index: number): unknown => {
+    const current = middleware[index];
+    if (!current) return action(context.options, context.context);
+    return runMiddleware(current, context, () => next(index + 1));
+  };
+
+  return next(0);
+}
+
+function runMiddleware(middleware: PadroneMiddleware, context: PadroneMiddlewareContext, next: () => unknown): unknown {
+  const complete = (result: unknown) => {
+    if (!middleware.after) return result;
+    return thenMaybe(toMaybePromise(middleware.after({ ...context, result })), (replaced) => (replaced === undefined ? result : replaced));
+  };
+
+  const recover = (error: unknown) => {
+    if (!middleware.error) throw error;
+    return thenMaybe(toMaybePromise(middleware.error({ ...context, error })), (recovered) => {
+      if (recovered === undefined) throw error;
+      return recovered;
+    });
+  };
+
+  return thenMaybe(toMaybePromise(middleware.before?.(context)), (skipped) => {
+    if (skipped !== undefined) return skipped;
+
+    let result: unknown;
+    try {
+      result = next();
+    } catch (error) {
+      return recover(error);
+    }
+
+    return isThenable(result) ? Promise.resolve(result).then(complete, recover) : complete(result);
+  });
+}
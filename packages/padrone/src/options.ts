@@ -1,4 +1,4 @@
-import type { StandardJSONSchemaV1 } from '@standard-schema/spec';
+import type { StandardJSONSchemaV1, StandardSchemaV1 } from '@standard-schema/spec';
 
 export interface PadroneOptionsMeta {
   description?: string;
@@ -6,6 +6,25 @@ export interface PadroneOptionsMeta {
   deprecated?: boolean | string;
   hidden?: boolean;
   examples?: unknown[];
+  /**
+   * Whether the option is a counter, for a number schema.
+   * Each occurrence increments the value, so `-v`, `-vv` and `-vvv` produce 1, 2 and 3.
+   */
+  count?: boolean;
+  /**
+   * Whether the option is global, i.e. accepted by every subcommand of the command that declares it.
+   * Global options are validated by the declaring command's schema and passed to subcommand actions along with their own options.
+   */
+  global?: boolean;
+  /** Options that cannot be used together with this one. Conflicts apply both ways. */
+  conflicts?: string[] | string;
+  /** Options that must be set when this one is. */
+  requires?: string[] | string;
+  /**
+   * Values for other options when this one is set, unless they are set too.
+   * @example { quiet: true } - `--json` also turns on `--quiet`
+   */
+  implies?: Record<string, unknown>;
 }
 
 type PositionalArgs<TObj> =
@@ -15,6 +34,13 @@ type PositionalArgs<TObj> =
       }[keyof TObj]
     : string;
 
+type ArrayKeys<TObj> =
+  TObj extends Record<string, any>
+    ? {
+        [K in keyof TObj]: NonNullable<TObj[K]> extends Array<any> ? K & string : never;
+      }[keyof TObj]
+    : string;
+
 /**
  * Meta configuration for options including positional arguments.
  * The `positional` array defines which options are positional arguments and their order.
@@ -34,10 +60,44 @@ export interface PadroneMeta<TObj = Record<string, any>> {
    * @example ['source', '...files', 'dest'] - 'files' captures multiple values
    */
   positional?: PositionalArgs<TObj>[];
+  /**
+   * Name of an array option that collects every argument after the `--` separator.
+   * When not set, arguments after `--` are treated as regular positional arguments.
+   * @example 'rest' - `mycli exec -- npm test --watch` gives `{ rest: ['npm', 'test', '--watch'] }`
+   */
+  passthrough?: ArrayKeys<TObj>;
   /**
    * Per-option metadata.
    */
   options?: { [K in keyof TObj]?: PadroneOptionsMeta };
+  /**
+   * Named groups of options, shown as separate sections in help. A group can require that exactly one
+   * or at most one of its options is set.
+   * @example { Output: { options: ['json', 'yaml'], exclusive: 'at-most-one' }, Network: ['host', 'port'] }
+   */
+  groups?: Record<string, PadroneOptionsGroup<keyof TObj & string>>;
+}
+
+/**
+ * The options of a group, or the options and how many of them can be set.
+ */
+export type PadroneOptionsGroup<TKey extends string = string> =
+  | TKey[]
+  | {
+      options: TKey[];
+      /** `'exactly-one'` requires one of the options to be set, `'at-most-one'` allows none. */
+      exclusive?: 'exactly-one' | 'at-most-one';
+    };
+
+/**
+ * Parse the option groups configuration into a list of groups, in the order they are declared.
+ */
+export function parseOptionGroups(
+  groups: Record<string, PadroneOptionsGroup> | undefined,
+): { name: string; options: string[]; exclusive?: 'exactly-one' | 'at-most-one' }[] {
+  return Object.entries(groups ?? {}).map(([name, group]) =>
+    Array.isArray(group) ? { name, options: group } : { name, options: group.options, exclusive: group.exclusive },
+  );
 }
 
 /**
@@ -56,6 +116,12 @@ export function parsePositionalConfig(positional: string[]): { name: string; var
  */
 interface SchemaMetadataResult {
   aliases: Record<string, string>;
+  counters: Set<string>;
+  globals: Set<string>;
+  /** The options each option conflicts with, in both directions. */
+  conflicts: Record<string, string[]>;
+  requires: Record<string, string[]>;
+  implies: Record<string, Record<string, unknown>>;
 }
 
 /**
@@ -67,12 +133,30 @@ export function extractSchemaMetadata(
   meta?: Record<string, PadroneOptionsMeta | undefined>,
 ): SchemaMetadataResult {
   const aliases: Record<string, string> = {};
+  const counters = new Set<string>();
+  const globals = new Set<string>();
+  const conflicts: Record<string, string[]> = {};
+  const requires: Record<string, string[]> = {};
+  const implies: Record<string, Record<string, unknown>> = {};
+
+  const addConflicts = (key: string, names: string[] | string) => {
+    for (const name of typeof names === 'string' ? [names] : names) {
+      if (!conflicts[key]?.includes(name)) conflicts[key] = [...(conflicts[key] ?? []), name];
+      if (!conflicts[name]?.includes(key)) conflicts[name] = [...(conflicts[name] ?? []), key];
+    }
+  };
 
   // Extract from meta object
   if (meta) {
     for (const [key, value] of Object.entries(meta)) {
       if (!value) continue;
 
+      if (value.count) counters.add(key);
+      if (value.global) globals.add(key);
+      if (value.conflicts) addConflicts(key, value.conflicts);
+      if (value.requires) requires[key] = typeof value.requires === 'string' ? [value.requires] : value.requires;
+      if (value.implies) implies[key] = value.implies;
+
       // Extract aliases
       if (value.alias) {
         const list = typeof value.alias === 'string' ? [value.alias] : value.alias;
@@ -92,6 +176,14 @@ export function extractSchemaMetadata(
       for (const [propertyName, propertySchema] of Object.entries(jsonSchema.properties as Record<string, any>)) {
         if (!propertySchema) continue;
 
+        if (propertySchema.count && meta?.[propertyName]?.count === undefined) counters.add(propertyName);
+        if (propertySchema.global && meta?.[propertyName]?.global === undefined) globals.add(propertyName);
+        if (propertySchema.conflicts && meta?.[propertyName]?.conflicts === undefined) addConflicts(propertyName, propertySchema.conflicts);
+        if (propertySchema.requires && !(propertyName in requires)) {
+          requires[propertyName] = typeof propertySchema.requires === 'string' ? [propertySchema.requires] : propertySchema.requires;
+        }
+        if (propertySchema.implies && !(propertyName in implies)) implies[propertyName] = propertySchema.implies;
+
         // Extract aliases from schema
         const propAlias = propertySchema.alias;
         if (propAlias) {
@@ -110,7 +202,100 @@ export function extractSchemaMetadata(
     // Ignore errors from JSON schema generation
   }
 
-  return { aliases };
+  return { aliases, counters, globals, conflicts, requires, implies };
+}
+
+/**
+ * An issue for options that break the relations declared with `conflicts` and `requires`, or the constraint of an exclusive group.
+ * It is reported along with the issues of the schema, without the received value and expected type.
+ */
+export type PadroneRelationIssue = StandardSchemaV1.Issue & { relation: 'conflicts' | 'requires' | 'group' };
+
+/**
+ * Whether an option counts as set for its relations. Booleans turned off with `--no-` do not.
+ */
+const isSet = (value: unknown) => value !== undefined && value !== false;
+
+/**
+ * Sets the values implied by the options that are set, unless they are set already.
+ * Implied options imply their own values in turn.
+ */
+export function applyImpliedOptions(options: Record<string, unknown>, implies: Record<string, Record<string, unknown>>): void {
+  const pending = Object.keys(implies).filter((key) => isSet(options[key]));
+  const applied = new Set<string>();
+
+  while (pending.length) {
+    const key = pending.shift()!;
+    if (applied.has(key)) continue;
+    applied.add(key);
+
+    for (const [name, value] of Object.entries(implies[key] ?? {})) {
+      if (options[name] !== undefined) continue;
+      options[name] = value;
+      if (name in implies && isSet(value)) pending.push(name);
+    }
+  }
+}
+
+/**
+ * Checks the options that are set against the conflicts and requirements declared between them.
+ * Each conflicting pair is reported once, on the option that comes first.
+ */
+export function checkOptionRelations(
+  options: Record<string, unknown>,
+  { conflicts, requires }: Pick<SchemaMetadataResult, 'conflicts' | 'requires'>,
+): PadroneRelationIssue[] {
+  const issues: PadroneRelationIssue[] = [];
+  const reported = new Set<string>();
+
+  for (const key of Object.keys(options)) {
+    if (!isSet(options[key])) continue;
+
+    const conflicting = (conflicts[key] ?? []).filter((name) => isSet(options[name]) && !reported.has(name));
+    if (conflicting.length) {
+      issues.push({
+        message: `Cannot be used with ${conflicting.map((name) => `--${name}`).join(', ')}`,
+        path: [key],
+        relation: 'conflicts',
+      });
+    }
+    reported.add(key);
+
+    const missing = (requires[key] ?? []).filter((name) => !isSet(options[name]));
+    if (missing.length)
+      issues.push({ message: `Requires ${missing.map((name) => `--${name}`).join(', ')}`, path: [key], relation: 'requires' });
+  }
+
+  return issues;
+}
+
+/**
+ * Expands a POSIX-style cluster of short flags, such as `-abc` or `-ofile.txt`.
+ * Every flag except the last one must be a boolean. When a non-boolean flag is reached,
+ * the rest of the cluster is its attached value (`-ofile.txt` assigns `file.txt` to `-o`).
+ *
+ * Returns `undefined` if the key is not a cluster, i.e. its first letter is not a known flag.
+ * When the cluster contains an unknown letter, it is returned as `unknownFlag` along with the flags before it.
+ */
+export function expandShortFlagCluster(
+  key: string,
+  resolveFlag: (flag: string) => string | undefined,
+  booleanOptions: Set<string>,
+): { flags: string[]; attachedValue?: string; unknownFlag?: string } | undefined {
+  if (key.length < 2 || !resolveFlag(key[0]!)) return undefined;
+
+  const flags: string[] = [];
+  for (let i = 0; i < key.length; i++) {
+    const flag = key[i]!;
+    const name = resolveFlag(flag);
+    if (!name) return { flags, unknownFlag: flag };
+
+    flags.push(name);
+    const rest = key.slice(i + 1);
+    if (rest && !booleanOptions.has(name)) return { flags, attachedValue: rest };
+  }
+
+  return { flags };
 }
 
 function preprocessAliases(data: Record<string, unknown>, aliases: Record<string, string>): Record<string, unknown> {
@@ -178,3 +363,23 @@ export function preprocessOptions(data: Record<string, unknown>, ctx: ParseOptio
 
   return result;
 }
+
+/**
+ * Checks the options that are set against the exclusive groups: at most one option of a group can be set,
+ * and one must be set for `'exactly-one'` groups.
+ */
+export function checkOptionGroups(options: Record<string, unknown>, groups: ReturnType<typeof parseOptionGroups>): PadroneRelationIssue[] {
+  const issues: PadroneRelationIssue[] = [];
+
+  for (const group of groups) {
+    if (!group.exclusive) continue;
+    const names = group.options.map((name) => `--${name}`).join(', ');
+    const set = group.options.filter((name) => isSet(options[name]));
+
+    if (set.length > 1) issues.push({ message: `Only one of ${names} can be used`, path: [set[1]!], relation: 'group' });
+    if (!set.length && group.exclusive === 'exactly-one')
+      issues.push({ message: `One of ${names} is required`, path: [], relation: 'group' });
+  }
+
+  return issues;
+}
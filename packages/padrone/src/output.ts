@@ -0,0 +1,114 @@
+/**
+ * The formats `cli()` prints the result of a command in, chosen with `--output`.
+ */
+export type PadroneOutputFormat = 'json' | 'yaml' | 'table' | 'text';
+
+export const outputFormats: PadroneOutputFormat[] = ['json', 'yaml', 'table', 'text'];
+
+/**
+ * Formats the result of a command for printing.
+ * @param render - The `render` hook of the command, used for the `text` format
+ */
+export function formatResult(result: unknown, format: PadroneOutputFormat, render?: (result: any) => string): string {
+  if (format === 'json') return JSON.stringify(result, null, 2) ?? String(result);
+  if (format === 'yaml') return formatYaml(result);
+  if (format === 'table') return formatTable(result);
+  if (render) return render(result);
+  // Without a render hook, text is the most readable of the other formats for the value
+  if (typeof result === 'string') return result;
+  if (isRecordArray(result)) return formatTable(result);
+  return typeof result === 'object' && result !== null ? formatYaml(result) : String(result);
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value) && !(value instanceof Date);
+
+const isRecordArray = (value: unknown): value is Record<string, unknown>[] =>
+  Array.isArray(value) && value.length > 0 && value.every(isRecord);
+
+/**
+ * Formats a value as the text of a table cell.
+ */
+function formatCell(value: unknown): string {
+  if (value === undefined || value === null) return '';
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+/**
+ * Formats an array of objects as aligned columns, with a column for every key found in the objects.
+ * A single object is shown as a table with one row, and other values one per line.
+ */
+export function formatTable(value: unknown): string {
+  const rows = isRecord(value) ? [value] : value;
+  if (!isRecordArray(rows)) return Array.isArray(rows) ? rows.map(formatCell).join('\n') : formatCell(rows);
+
+  const columns = [...new Set(rows.flatMap((row) => Object.keys(row)))];
+  const cells = [columns, ...rows.map((row) => columns.map((column) => formatCell(row[column])))];
+  const widths = columns.map((_, i) => Math.max(...cells.map((line) => line[i]!.length)));
+
+  return cells
+    .map((line) =>
+      line
+        .map((cell, i) => cell.padEnd(widths[i]!))
+        .join('  ')
+        .trimEnd(),
+    )
+    .join('\n');
+}
+
+/**
+ * Formats a string as a YAML scalar, quoting it when it would otherwise be read as another type or is not plain.
+ */
+function formatYamlString(value: string): string {
+  const plain = /^[A-Za-z_/.][\w ./@-]*$/.test(value) && !/ $/.test(value) && !/^(true|false|yes|no|on|off|null|~)$/i.test(value);
+  return plain ? value : JSON.stringify(value);
+}
+
+function formatYamlScalar(value: unknown): string {
+  if (value === null || value === undefined) return 'null';
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === 'string') return formatYamlString(value);
+  return String(value);
+}
+
+/**
+ * Formats a value as YAML, with nested objects and arrays indented by two spaces.
+ * @param ancestors - The objects being formatted around the value, to reject cyclic values like `JSON.stringify` does
+ * @throws TypeError when the value contains itself
+ */
+export function formatYaml(value: unknown, indent = 0, ancestors: object[] = []): string {
+  const pad = ' '.repeat(indent);
+
+  if (typeof value === 'object' && value !== null) {
+    if (ancestors.includes(value)) throw new TypeError('Converting circular structure to YAML');
+    ancestors = [...ancestors, value];
+  }
+
+  if (Array.isArray(value)) {
+    if (!value.length) return `${pad}[]`;
+    return value
+      .map((item) => {
+        const nested = Array.isArray(item) ? item.length > 0 : isRecord(item) && Object.keys(item).length > 0;
+        if (!nested) return `${pad}- ${formatYaml(item, 0, ancestors)}`;
+        // The first line of a nested value goes after the dash, the other lines are aligned with it
+        return `${pad}- ${formatYaml(item, indent + 2, ancestors).slice(indent + 2)}`;
+      })
+      .join('\n');
+  }
+
+  if (isRecord(value)) {
+    const entries = Object.entries(value).filter(([, item]) => item !== undefined);
+    if (!entries.length) return `${pad}{}`;
+    return entries
+      .map(([key, item]) => {
+        const nested = Array.isArray(item) ? item.length > 0 : isRecord(item) && Object.keys(item).length > 0;
+        if (!nested) return `${pad}${formatYamlString(key)}: ${formatYaml(item, 0, ancestors)}`;
+        return `${pad}${formatYamlString(key)}:\n${formatYaml(item, indent + 2, ancestors)}`;
+      })
+      .join('\n');
+  }
+
+  return `${pad}${formatYamlScalar(value)}`;
+}
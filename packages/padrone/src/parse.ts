@@ -17,6 +17,8 @@ type ParseParts = {
   arg: {
     type: 'arg';
     value: string;
+    /** Whether the argument appeared after the `--` separator, so it must never be interpreted as an option. */
+    literal?: boolean;
   };
   /**
    * An option provided to the command, prefixed with `--`.
@@ -28,6 +30,8 @@ type ParseParts = {
     key: string;
     value?: string | string[];
     negated?: boolean;
+    /** Whether the value was attached with `=` rather than taken from the next part. */
+    inline?: boolean;
   };
   /**
    * An alias option provided to the command, prefixed with `-`.
@@ -37,16 +41,18 @@ type ParseParts = {
     type: 'alias';
     key: string;
     value?: string | string[];
+    /** Whether the value was attached with `=` rather than taken from the next part. */
+    inline?: boolean;
   };
 };
 
-type ParsePart = ParseParts[keyof ParseParts];
+export type ParsePart = ParseParts[keyof ParseParts];
 
 /**
  * Tokenizes input string respecting quoted strings and bracket arrays.
  * Supports single quotes, double quotes, backticks, and square brackets.
  */
-function tokenizeInput(input: string): string[] {
+export function tokenizeInput(input: string): string[] {
   const tokens: string[] = [];
   let current = '';
   let inQuote: '"' | "'" | '`' | null = null;
@@ -106,34 +112,48 @@ function tokenizeInput(input: string): string[] {
   return tokens;
 }
 
-export function parseCliInputToParts(input: string): ParsePart[] {
-  const parts = tokenizeInput(input.trim());
+/**
+ * Splits CLI input into typed parts.
+ * A string input is tokenized first, while an array input (e.g. `process.argv.slice(2)`)
+ * is used as-is, since the shell has already handled quoting and escaping.
+ */
+export function parseCliInputToParts(input: string | string[]): ParsePart[] {
+  const isRaw = Array.isArray(input);
+  const parts = isRaw ? input : tokenizeInput(input.trim());
   const result: ParsePart[] = [];
 
   let pendingValue: ParseParts['option'] | ParseParts['alias'] | undefined;
   let allowTerm = true;
+  let afterSeparator = false;
 
   for (const part of parts) {
-    if (!part) continue;
+    if (afterSeparator) {
+      result.push({ type: 'arg', value: part, literal: true });
+      continue;
+    }
+
     const wasPending = pendingValue;
     pendingValue = undefined;
 
-    if (part.startsWith('--no-') && part.length > 5) {
+    if (part === '--') {
+      // End of options: everything after this is a literal argument
+      afterSeparator = true;
+    } else if (part.startsWith('--no-') && part.length > 5) {
       // Negated boolean option (--no-verbose)
       const key = part.slice(5);
       const p = { type: 'option' as const, key, value: undefined, negated: true };
       result.push(p);
     } else if (part.startsWith('--')) {
-      const [key = '', value] = splitOptionValue(part.slice(2));
+      const [key = '', value] = splitOptionValue(part.slice(2), isRaw);
 
-      const p = { type: 'option' as const, key, value };
+      const p: ParseParts['option'] = { type: 'option', key, value, inline: typeof value !== 'undefined' };
       if (typeof value === 'undefined') pendingValue = p;
       result.push(p);
     } else if (part.startsWith('-') && part.length > 1 && !/^-\d/.test(part)) {
       // Short option (but not negative numbers like -5)
-      const [key = '', value] = splitOptionValue(part.slice(1));
+      const [key = '', value] = splitOptionValue(part.slice(1), isRaw);
 
-      const p = { type: 'alias' as const, key, value };
+      const p: ParseParts['alias'] = { type: 'alias', key, value, inline: typeof value !== 'undefined' };
       if (typeof value === 'undefined') pendingValue = p;
       result.push(p);
     } else if (wasPending) {
@@ -150,8 +170,9 @@ export function parseCliInputToParts(input: string): ParsePart[] {
 
 /**
  * Split option key and value, handling quoted values after =.
+ * When `raw` is true, the value came from an argv array and quotes are kept as-is.
  */
-function splitOptionValue(str: string): [string, string | string[] | undefined] {
+function splitOptionValue(str: string, raw = false): [string, string | string[] | undefined] {
   const eqIndex = str.indexOf('=');
   if (eqIndex === -1) return [str, undefined];
 
@@ -160,9 +181,10 @@ function splitOptionValue(str: string): [string, string | string[] | undefined]
 
   // Remove surrounding quotes from value if present
   if (
-    (value.startsWith('"') && value.endsWith('"')) ||
-    (value.startsWith("'") && value.endsWith("'")) ||
-    (value.startsWith('`') && value.endsWith('`'))
+    !raw &&
+    ((value.startsWith('"') && value.endsWith('"')) ||
+      (value.startsWith("'") && value.endsWith("'")) ||
+      (value.startsWith('`') && value.endsWith('`')))
   ) {
     value = value.slice(1, -1);
     return [key, value];
@@ -0,0 +1,309 @@
+import { generateCompletionOutput, type ShellType } from './completion.ts';
+import { PadroneFlagValueError } from './errors.ts';
+import type { HelpFormat } from './formatter.ts';
+import { generateHelp } from './help.ts';
+import { formatResult, outputFormats } from './output.ts';
+import { parseCliInputToParts } from './parse.ts';
+import type { AnyPadroneCommand, PadronePlugin, PadronePluginContext, PadronePluginFlag, PadronePluginOutputContext } from './types.ts';
+import { getVersion, thenMaybe } from './utils.ts';
+
+type DetailLevel = 'minimal' | 'standard' | 'full';
+
+const detailLevels: DetailLevel[] = ['minimal', 'standard', 'full'];
+const helpFormats: (HelpFormat | 'auto')[] = ['text', 'ansi', 'console', 'markdown', 'html', 'json', 'auto'];
+const shells: ShellType[] = ['bash', 'zsh', 'fish', 'powershell'];
+
+/**
+ * Returns the value of a flag when it is one of the allowed values.
+ */
+const pickValue = <T extends string>(value: string | true | undefined, allowed: T[]): T | undefined =>
+  allowed.includes(value as T) ? (value as T) : undefined;
+
+/**
+ * Returns the value of a flag, or `undefined` when the flag is not given a value.
+ * @throws PadroneFlagValueError when the flag is given a value that is not allowed
+ */
+const readFlagValue = <T extends string>(flags: Record<string, string | true>, name: string, allowed: T[]): T | undefined => {
+  const value = flags[name];
+  if (typeof value === 'string' && !pickValue(value, allowed)) throw new PadroneFlagValueError(`--${name}`, value, allowed);
+  return pickValue(value, allowed);
+};
+
+/**
+ * Shows the help of the program, or of a command with `help <command>` or `<command> --help`.
+ * `--detail` and `--format` choose how much is shown and how.
+ */
+const helpPlugin: PadronePlugin = {
+  name: 'help',
+  command: 'help',
+  flags: {
+    help: { aliases: ['h'], description: 'Show help information' },
+    detail: { aliases: ['d'] },
+    format: { aliases: ['f'] },
+  },
+  run: ({ program, terms, invoked, flags, find, load }) => {
+    if (!invoked && !flags.help) return undefined;
+
+    const path = (invoked ? terms : terms.filter((term) => term !== 'help')).join(' ');
+    const command = (path && find(path)) || program;
+    const detail = readFlagValue(flags, 'detail', detailLevels);
+    const format = readFlagValue(flags, 'format', helpFormats);
+    // The full help describes every subcommand, so the lazy ones are loaded first
+    return thenMaybe(detail === 'full' ? load(command) : undefined, () => generateHelp(program, command, { detail, format }));
+  },
+};
+
+/**
+ * Shows the version of the program with `version`, or with `--version` when no command is given.
+ */
+const versionPlugin: PadronePlugin = {
+  name: 'version',
+  command: 'version',
+  flags: {
+    version: { aliases: ['v', 'V'], description: 'Show version number' },
+  },
+  run: ({ program, terms, invoked, flags }) => (invoked || (flags.version && !terms.length) ? getVersion(program.version) : undefined),
+};
+
+/**
+ * Generates the completion script of a shell with `completion [shell]`.
+ */
+const completionPlugin: PadronePlugin = {
+  name: 'completion',
+  command: 'completion',
+  run: ({ program, terms, invoked, load }) => {
+    if (!invoked) return undefined;
+    // The completion scripts describe every subcommand, so the lazy ones are loaded first
+    return thenMaybe(load(program), () => generateCompletionOutput(program, pickValue(terms[0], shells)));
+  },
+};
+
+/**
+ * Loads the config file given with `--config <path>`, instead of searching for the config files of the command.
+ */
+const configPlugin: PadronePlugin = {
+  name: 'config',
+  flags: {
+    config: { aliases: ['c'] },
+  },
+  configFile: ({ flags }) => (typeof flags.config === 'string' ? flags.config : undefined),
+};
+
+/**
+ * Prints the result of a command in the format given with `--output`.
+ * Without it, results are printed as text on a terminal and as JSON otherwise, e.g. when piped.
+ */
+const outputPlugin: PadronePlugin = {
+  name: 'output',
+  flags: {
+    output: { aliases: ['o'], description: 'Print the result as json, yaml, table or text' },
+  },
+  // The format is checked before the command runs, rather than once its result is printed
+  run: ({ flags }) => {
+    readFlagValue(flags, 'output', outputFormats);
+    return undefined;
+  },
+  output: ({ command, result, flags, tty }) => {
+    if (result === undefined) return undefined;
+    const format = readFlagValue(flags, 'output', outputFormats) ?? (tty === undefined ? undefined : tty ? 'text' : 'json');
+    return format && formatResult(result, format, command.render);
+  },
+};
+
+/**
+ * Approves the commands that need approval with `--yes`, so that they run without asking for confirmation.
+ */
+const yesPlugin: PadronePlugin = {
+  name: 'yes',
+  flags: {
+    yes: { aliases: ['y'], boolean: true },
+  },
+  approve: ({ flags }) => (flags.yes ? true : undefined),
+};
+
+/**
+ * The plugins installed by `createPadrone()`, in the order they handle the input.
+ */
+export const builtinPlugins: PadronePlugin[] = [helpPlugin, versionPlugin, completionPlugin, configPlugin, outputPlugin, yesPlugin];
+
+/**
+ * Returns the installed plugins of a program, with their flags re-aliased or the plugin disabled by `config`.
+ * @throws Error when no plugin with the name is installed
+ */
+export function configurePlugin(
+  plugins: PadronePlugin[],
+  name: string,
+  config: false | { flags?: Record<string, string[]> },
+): PadronePlugin[] {
+  if (!plugins.some((plugin) => plugin.name === name)) throw new Error(`Plugin "${name}" is not installed`);
+  if (config === false) return plugins.filter((plugin) => plugin.name !== name);
+
+  return plugins.map((plugin) => {
+    if (plugin.name !== name || !plugin.flags || !config.flags) return plugin;
+    const flags = Object.fromEntries(
+      Object.entries(plugin.flags).map(([flag, options]) => [
+        flag,
+        flag in config.flags! ? { ...options, aliases: config.flags![flag] } : options,
+      ]),
+    );
+    return { ...plugin, flags };
+  });
+}
+
+/**
+ * Installs a plugin, in place of an installed plugin with the same name.
+ */
+export function installPlugin(plugins: PadronePlugin[], plugin: PadronePlugin): PadronePlugin[] {
+  const index = plugins.findIndex((installed) => installed.name === plugin.name);
+  return index === -1 ? [...plugins, plugin] : plugins.map((installed, i) => (i === index ? plugin : installed));
+}
+
+/**
+ * An option of the input as spelled there, e.g. `--config` is `{ type: 'option', key: 'config' }` and `-c` is `{ type: 'alias', key: 'c' }`.
+ */
+export type PluginFlagPart = { type: 'option' | 'alias'; key: string; negated?: boolean };
+
+/**
+ * Reads the input of a program for its plugins: the terms after the program name and the options as spelled in the input.
+ * Options that the selected command defines itself are left to the command, as told by `owns`.
+ */
+function readInput(program: AnyPadroneCommand, input: string | string[], owns?: (part: PluginFlagPart) => boolean) {
+  const parts = parseCliInputToParts(input);
+  const terms = parts.filter((part) => part.type === 'term').map((part) => part.value);
+  if (terms[0] === program.name) terms.shift();
+  const options = parts.filter((part) => (part.type === 'option' || part.type === 'alias') && !owns?.(part));
+  return { terms, options: options as Extract<(typeof parts)[number], PluginFlagPart>[] };
+}
+
+/**
+ * Tells whether an option of the input is spelled as a flag of a plugin, by its long name or one of its aliases.
+ */
+const matchesFlag = (part: PluginFlagPart, name: string, flag: PadronePluginFlag) =>
+  part.type === 'option' ? part.key === name && !part.negated : !!flag.aliases?.includes(part.key);
+
+/**
+ * Finds the flags of a plugin in the options of the input, taking the first value given for each flag.
+ * @returns The flags by name, and how they were spelled in the input, e.g. `--config` or `-c`
+ */
+function readPluginFlags(plugin: PadronePlugin, options: ReturnType<typeof readInput>['options']) {
+  const flags: Record<string, string | true> = {};
+  const spellings: string[] = [];
+  for (const [name, flag] of Object.entries(plugin.flags ?? {})) {
+    const option = options.find((opt) => matchesFlag(opt, name, flag));
+    if (!option) continue;
+    flags[name] = typeof option.value === 'string' && !flag.boolean ? option.value : true;
+    spellings.push(option.type === 'option' ? `--${option.key}` : `-${option.key}`);
+  }
+  return { flags, spellings };
+}
+
+/**
+ * Runs the plugin whose command starts the input, or else the first plugin that handles a flag in the input.
+ * Commands of the program take precedence over the commands of plugins,
+ * and options that the selected command defines itself, as told by `owns`, over the flags of plugins.
+ * @returns The output of the plugin, or `undefined` when no plugin handles the input
+ */
+export function runPlugins(
+  program: AnyPadroneCommand,
+  input: string | string[],
+  tools: Pick<PadronePluginContext, 'find' | 'load'>,
+  owns?: (part: PluginFlagPart) => boolean,
+): string | Promise<string> | undefined {
+  const plugins = program.plugins ?? [];
+  const { terms, options } = readInput(program, input);
+
+  const invokedPlugin = plugins.find((plugin) => plugin.command && plugin.command === terms[0] && !tools.find(plugin.command));
+  if (invokedPlugin?.run) {
+    const { flags } = readPluginFlags(invokedPlugin, options);
+    const output = invokedPlugin.run({ program, terms: terms.slice(1), invoked: true, flags, ...tools });
+    if (output !== undefined) return output;
+  }
+
+  // The command of a plugin is run instead of the selected command, so only flags can be options of that command
+  const commandOptions = owns ? options.filter((part) => !owns(part)) : options;
+  for (const plugin of plugins) {
+    const { flags, spellings } = readPluginFlags(plugin, commandOptions);
+    if (!plugin.run || !spellings.length) continue;
+    const output = plugin.run({ program, terms, invoked: false, flags, ...tools });
+    if (output !== undefined) return output;
+  }
+  return undefined;
+}
+
+/**
+ * Finds the config file given in the input by a plugin.
+ */
+export function findPluginConfigFile(
+  program: AnyPadroneCommand,
+  input: string | string[],
+  tools: Pick<PadronePluginContext, 'find' | 'load'>,
+  owns?: (part: PluginFlagPart) => boolean,
+): string | undefined {
+  const { terms, options } = readInput(program, input, owns);
+  for (const plugin of program.plugins ?? []) {
+    if (!plugin.configFile) continue;
+    const { flags } = readPluginFlags(plugin, options);
+    const file = plugin.configFile({ program, terms, invoked: false, flags, ...tools });
+    if (file !== undefined) return file;
+  }
+  return undefined;
+}
+
+/**
+ * Formats the result of a command with the first plugin that formats it.
+ * @returns The text to print, or `undefined` when the result is not printed
+ */
+export function formatPluginOutput(
+  program: AnyPadroneCommand,
+  input: string | string[] | undefined,
+  tools: Pick<PadronePluginContext, 'find' | 'load'>,
+  output: Pick<PadronePluginOutputContext, 'command' | 'result' | 'tty'>,
+  owns?: (part: PluginFlagPart) => boolean,
+): string | undefined {
+  const { terms, options } = input ? readInput(program, input, owns) : { terms: [], options: [] };
+  for (const plugin of program.plugins ?? []) {
+    if (!plugin.output) continue;
+    const { flags } = readPluginFlags(plugin, options);
+    const text = plugin.output({ program, terms, invoked: false, flags, ...tools, ...output });
+    if (text !== undefined) return text;
+  }
+  return undefined;
+}
+
+/**
+ * Tells whether a plugin approves the commands that need approval, e.g. with `--yes`.
+ */
+export function isApprovedByPlugins(
+  program: AnyPadroneCommand,
+  input: string | string[],
+  tools: Pick<PadronePluginContext, 'find' | 'load'>,
+  owns?: (part: PluginFlagPart) => boolean,
+): boolean {
+  const { terms, options } = readInput(program, input, owns);
+  return (program.plugins ?? []).some((plugin) => {
+    if (!plugin.approve) return false;
+    const { flags } = readPluginFlags(plugin, options);
+    return !!plugin.approve({ program, terms, invoked: false, flags, ...tools });
+  });
+}
+
+/**
+ * Finds the plugin flag that an option of the input is spelled as, among the flags that plugins read while a command runs,
+ * e.g. `--config`. They are not options of the command, but are not unknown to it either.
+ */
+export function findPluginRunFlag(program: AnyPadroneCommand, part: PluginFlagPart): PadronePluginFlag | undefined {
+  for (const plugin of program.plugins ?? []) {
+    if (!plugin.configFile && !plugin.output && !plugin.approve) continue;
+    for (const [name, flag] of Object.entries(plugin.flags ?? {})) {
+      if (matchesFlag(part, name, flag)) return flag;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Tells whether the input starts with the command of a plugin rather than a command of the program.
+ */
+export function isPluginCommand(program: AnyPadroneCommand, term: string | undefined, find: (command: string) => unknown): boolean {
+  return !!term && !!program.plugins?.some((plugin) => plugin.command === term) && !find(term);
+}
@@ -0,0 +1,126 @@
+/**
+ * Streams used for interactive prompts. Defaults to `process.stdin` and `process.stdout`.
+ */
+export type PadronePromptStreams = {
+  input?: NodeJS.ReadableStream;
+  output?: NodeJS.WritableStream;
+};
+
+/**
+ * Asks the user questions on a line-based input stream.
+ */
+export type PadronePrompter = {
+  text: (message: string, defaultValue?: string) => Promise<string>;
+  confirm: (message: string, defaultValue?: boolean) => Promise<boolean>;
+  select: (message: string, choices: string[], defaultValue?: string) => Promise<string>;
+  multiselect: (message: string, choices: string[], defaultValues?: string[]) => Promise<string[]>;
+  /** Writes a line to the output, e.g. to report an invalid answer. */
+  print: (message: string) => void;
+  close: () => void;
+};
+
+/**
+ * Whether prompts can be shown: streams were injected, or stdin is a TTY.
+ */
+export function canPrompt(streams?: PadronePromptStreams): boolean {
+  if (streams?.input) return true;
+  return typeof process !== 'undefined' && !!process.stdin?.isTTY;
+}
+
+/**
+ * Creates a prompter that reads answers line by line.
+ * Lines are queued as they arrive, so answers can be written to the input before the questions are asked.
+ */
+export function createPrompter(streams: PadronePromptStreams = {}): PadronePrompter {
+  const input = streams.input ?? process.stdin;
+  const output = streams.output ?? process.stdout;
+
+  const readline = require('node:readline') as typeof import('node:readline');
+  const lines = readline.createInterface({ input, terminal: false });
+  const queue: string[] = [];
+  const waiting: { resolve: (line: string) => void; reject: (error: Error) => void }[] = [];
+  let closed = false;
+
+  lines.on('line', (line) => {
+    const next = waiting.shift();
+    if (next) next.resolve(line);
+    else queue.push(line);
+  });
+  lines.on('close', () => {
+    closed = true;
+    for (const next of waiting.splice(0)) next.reject(new Error('The input ended before all questions were answered'));
+  });
+
+  const ask = (question: string): Promise<string> => {
+    output.write(question);
+    if (queue.length) return Promise.resolve(queue.shift()!);
+    if (closed) return Promise.reject(new Error('The input ended before all questions were answered'));
+    return new Promise<string>((resolve, reject) => waiting.push({ resolve, reject }));
+  };
+
+  return createQuestionPrompter(ask, output, () => {
+    if (!closed) lines.close();
+  });
+}
+
+/**
+ * Creates a prompter that asks its questions with the given function, e.g. on the line editor of a REPL session.
+ * @param askLine - Shows the question and resolves with the next line of input
+ */
+export function createQuestionPrompter(
+  askLine: (question: string) => Promise<string>,
+  output: NodeJS.WritableStream,
+  close: () => void = () => {},
+): PadronePrompter {
+  const ask = (question: string) => askLine(question).then((line) => line.trim());
+  const print = (message: string) => output.write(`${message}\n`);
+
+  const listChoices = (choices: string[], selected: string[] = []) =>
+    choices.map((choice, index) => `  ${index + 1}) ${choice}${selected.includes(choice) ? ' (default)' : ''}`).join('\n');
+
+  /** Maps an answer to a choice by its number or its value. */
+  const toChoice = (answer: string, choices: string[]) => choices[Number(answer) - 1] ?? choices.find((choice) => choice === answer);
+
+  return {
+    async text(message, defaultValue) {
+      const answer = await ask(`? ${message}${defaultValue !== undefined ? ` (${defaultValue})` : ''}: `);
+      return answer || defaultValue || '';
+    },
+
+    async confirm(message, defaultValue) {
+      const hint = defaultValue === true ? 'Y/n' : defaultValue === false ? 'y/N' : 'y/n';
+      while (true) {
+        const answer = (await ask(`? ${message} (${hint}): `)).toLowerCase();
+        if (!answer && defaultValue !== undefined) return defaultValue;
+        if (answer === 'y' || answer === 'yes') return true;
+        if (answer === 'n' || answer === 'no') return false;
+        print('  Please answer y or n.');
+      }
+    },
+
+    async select(message, choices, defaultValue) {
+      print(`? ${message}\n${listChoices(choices, defaultValue === undefined ? [] : [defaultValue])}`);
+      while (true) {
+        const answer = await ask(`  Choose 1-${choices.length}: `);
+        if (!answer && defaultValue !== undefined) return defaultValue;
+        const choice = toChoice(answer, choices);
+        if (choice !== undefined) return choice;
+        print(`  Please choose a number between 1 and ${choices.length}.`);
+      }
+    },
+
+    async multiselect(message, choices, defaultValues) {
+      print(`? ${message}\n${listChoices(choices, defaultValues)}`);
+      while (true) {
+        const answer = await ask(`  Choose any of 1-${choices.length}, separated by commas: `);
+        if (!answer) return defaultValues ?? [];
+        const selected = answer.split(',').map((part) => toChoice(part.trim(), choices));
+        if (selected.every((choice) => choice !== undefined)) return selected as string[];
+        print(`  Please choose numbers between 1 and ${choices.length}.`);
+      }
+    },
+
+    print,
+    close,
+  };
+}
@@ -0,0 +1,147 @@
+import { completeLine } from './completion.ts';
+import { createQuestionPrompter, type PadronePrompter } from './prompt.ts';
+import type { AnyPadroneCommand, PadroneReplOptions } from './types.ts';
+
+/**
+ * The line editor of a REPL session, with history and tab completion of commands and options.
+ */
+export type PadroneReplSession = {
+  /** Shows the prompt and resolves with the next line, or with `undefined` when the session has ended. */
+  read: () => Promise<string | undefined>;
+  /** Asks questions on the line editor, e.g. to confirm a command that needs approval. */
+  prompter: PadronePrompter;
+  /** Runs a command with a signal that is aborted by Ctrl-C or by the `signal` option. */
+  run: <T>(fn: (signal: AbortSignal) => Promise<T>) => Promise<T>;
+  /** Writes a line to the output. */
+  print: (message: string) => void;
+  close: () => void;
+};
+
+/**
+ * The commands handled by the REPL itself, unless the program defines commands with the same names.
+ */
+export const replBuiltins = ['help', 'exit', 'quit'];
+
+/**
+ * Creates the line editor of a REPL session.
+ * Lines are queued as they arrive, so that lines typed while a command runs are read after it finishes.
+ */
+export function createReplSession(program: AnyPadroneCommand, options: PadroneReplOptions = {}): PadroneReplSession {
+  const input = options.input ?? process.stdin;
+  const output = options.output ?? process.stdout;
+  const history = options.historyFile ? loadHistory(options.historyFile) : [];
+
+  const prompt = options.prompt ?? `${program.name}> `;
+
+  const readline = require('node:readline') as typeof import('node:readline');
+  const lines = readline.createInterface({
+    input,
+    output,
+    prompt,
+    completer: (line: string) => completeLine(program, line, replBuiltins),
+    // readline expects the most recent entry first
+    history: [...history].reverse(),
+  });
+
+  const queue: string[] = [];
+  const waiting: ((line: string | undefined) => void)[] = [];
+  let closed = false;
+  let running: AbortController | undefined;
+
+  lines.on('line', (line) => {
+    const next = waiting.shift();
+    if (next) next(line);
+    else queue.push(line);
+  });
+  lines.on('close', () => {
+    closed = true;
+    for (const next of waiting.splice(0)) next(undefined);
+  });
+  // Ctrl-C aborts the running command, or ends the session when there is none
+  lines.on('SIGINT', () => {
+    if (running) running.abort(new Error('Received SIGINT'));
+    else lines.close();
+  });
+
+  // Aborting the signal ends the session without running the lines that are still queued
+  const end = () => {
+    queue.length = 0;
+    lines.close();
+  };
+  options.signal?.addEventListener('abort', end);
+
+  /**
+   * Shows a prompt and resolves with the next line, or with `undefined` when the session has ended.
+   * Lines that were queued before the input ended are still read, after a prompt written as-is.
+   */
+  const readLine = (text: string): Promise<string | undefined> => {
+    if (!queue.length && closed) return Promise.resolve(undefined);
+    if (closed) output.write(text);
+    else {
+      lines.setPrompt(text);
+      lines.prompt();
+      lines.setPrompt(prompt);
+    }
+    if (queue.length) return Promise.resolve(queue.shift());
+    return new Promise((resolve) => waiting.push(resolve));
+  };
+
+  const prompter = createQuestionPrompter(async (question) => {
+    const line = await readLine(question);
+    if (line === undefined) throw new Error('The input ended before all questions were answered');
+    return line;
+  }, output);
+
+  return {
+    async read() {
+      const line = await readLine(prompt);
+      if (options.historyFile && line?.trim()) appendHistory(options.historyFile, line);
+      return line;
+    },
+
+    prompter,
+
+    async run(fn) {
+      const controller = new AbortController();
+      const abortFromOuter = () => controller.abort(options.signal?.reason);
+      if (options.signal?.aborted) abortFromOuter();
+      else options.signal?.addEventListener('abort', abortFromOuter);
+
+      running = controller;
+      try {
+        return await fn(controller.signal);
+      } finally {
+        running = undefined;
+        options.signal?.removeEventListener('abort', abortFromOuter);
+      }
+    },
+
+    print: (message) => output.write(`${message}\n`),
+
+    close() {
+      options.signal?.removeEventListener('abort', end);
+      lines.close();
+    },
+  };
+}
+
+function loadHistory(file: string): string[] {
+  try {
+    const { readFileSync } = require('node:fs') as typeof import('node:fs');
+    return readFileSync(file, 'utf-8')
+      .split('\n')
+      .filter((line) => line.trim());
+  } catch {
+    // A missing history file is created when the first line is entered
+    return [];
+  }
+}
+
+function appendHistory(file: string, line: string) {
+  try {
+    const { appendFileSync } = require('node:fs') as typeof import('node:fs');
+    appendFileSync(file, `${line}\n`);
+  } catch {
+    // The session goes on without persisting its history
+  }
+}
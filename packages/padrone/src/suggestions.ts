@@ -0,0 +1,73 @@
+/**
+ * A suggestion for an unknown command or option, based on edit distance.
+ */
+export type PadroneSuggestion = {
+  /** Whether the unknown input looked like a command or an option. */
+  type: 'command' | 'option';
+  /** The unknown input as it was spelled on the command line (e.g. `deplyo` or `--dryrun`). */
+  input: string;
+  /** The closest known names, best match first, spelled as they should be typed (e.g. `deploy` or `--dry-run`). */
+  suggestions: string[];
+};
+
+/**
+ * Computes the optimal string alignment distance between two strings,
+ * which is the Levenshtein distance where swapping two adjacent characters counts as one edit.
+ */
+export function editDistance(a: string, b: string): number {
+  const d: number[][] = Array.from({ length: a.length + 1 }, (_, i) => [i]);
+  for (let j = 1; j <= b.length; j++) d[0]![j] = j;
+
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let value = Math.min(d[i - 1]![j]! + 1, d[i]![j - 1]! + 1, d[i - 1]![j - 1]! + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        value = Math.min(value, d[i - 2]![j - 2]! + 1);
+      }
+      d[i]![j] = value;
+    }
+  }
+
+  return d[a.length]![b.length]!;
+}
+
+/**
+ * Finds the candidates that are close enough to the input to be likely typos, best match first.
+ * Comparison is case-insensitive and ignores dashes, so `--dryrun` matches `--dry-run` and `--dryRun`.
+ * @param input - The unknown name without its prefix (e.g. `dryrun`)
+ * @param candidates - Pairs of comparable names and how they should be displayed (e.g. `['dryRun', '--dryRun']`)
+ */
+export function findSimilar(input: string, candidates: [name: string, display: string][], limit = 3): string[] {
+  const normalize = (text: string) => text.toLowerCase().replace(/-/g, '');
+  const normalizedInput = normalize(input);
+  if (normalizedInput.length < 3) return [];
+
+  const maxDistance = Math.max(1, Math.floor(normalizedInput.length / 3));
+  const matches: { display: string; distance: number }[] = [];
+  for (const [name, display] of candidates) {
+    const distance = editDistance(normalizedInput, normalize(name));
+    if (distance <= maxDistance && !matches.some((m) => m.display === display)) matches.push({ display, distance });
+  }
+
+  return matches
+    .sort((a, b) => a.distance - b.distance)
+    .slice(0, limit)
+    .map((m) => m.display);
+}
+
+/**
+ * Formats the suggested names as a question, e.g. `Did you mean "deploy" or "delete"?`.
+ */
+export function formatDidYouMean(suggestions: string[]): string {
+  const quoted = suggestions.map((s) => `"${s}"`);
+  const list = quoted.length > 1 ? `${quoted.slice(0, -1).join(', ')} or ${quoted.at(-1)}` : quoted[0];
+  return `Did you mean ${list}?`;
+}
+
+/**
+ * Formats a suggestion as a full sentence, e.g. `Unknown command "deplyo". Did you mean "deploy"?`.
+ */
+export function formatSuggestion(suggestion: PadroneSuggestion): string {
+  return `Unknown ${suggestion.type} "${suggestion.input}". ${formatDidYouMean(suggestion.suggestions)}`;
+}
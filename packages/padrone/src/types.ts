@@ -2,6 +2,8 @@ import type { StandardJSONSchemaV1, StandardSchemaV1 } from '@standard-schema/sp
 import type { Tool } from 'ai';
 import type { HelpOptions } from './help.ts';
 import type { PadroneMeta } from './options.ts';
+import type { PadronePromptStreams } from './prompt.ts';
+import type { PadroneSuggestion } from './suggestions.ts';
 import type {
   FlattenCommands,
   FullCommandName,
@@ -23,6 +25,34 @@ type DefaultOpts = UnknownRecord | void;
  */
 export type PadroneSchema<Input = unknown, Output = Input> = StandardSchemaV1<Input, Output> & StandardJSONSchemaV1<Input, Output>;
 
+/**
+ * A module that exports the builder function of a lazy command, either as its default export or as the module itself.
+ * @example
+ * ```ts
+ * // deploy.ts
+ * export default (c: PadroneCommandBuilder<'deploy'>) => c.options(deployOptions).action(deploy);
+ * ```
+ */
+export type PadroneCommandModule<TBuilderFn> = TBuilderFn | { default: TBuilderFn };
+
+/**
+ * The loader of a lazy command, created with `lazy()`, which imports the module of the command when it first runs.
+ */
+export type PadroneLazyLoader<TModule> = {
+  '~lazy': () => Promise<TModule>;
+};
+
+/**
+ * Helper type for commands that are loaded when they first run, whose results are therefore promises.
+ */
+type AsLazy<TCommand extends AnyPadroneCommand> = Omit<TCommand, 'handler' | '~types'> & {
+  handler?: (
+    options: TCommand['~types']['optionsOutput'],
+    context: PadroneActionContext<TCommand['~types']['context']>,
+  ) => Promise<Awaited<TCommand['~types']['result']>>;
+  '~types': Omit<TCommand['~types'], 'result'> & { result: Promise<Awaited<TCommand['~types']['result']>> };
+};
+
 /**
  * Helper type to set aliases on a command type.
  * Uses intersection to override just the aliases while preserving all other type information.
@@ -32,6 +62,28 @@ type WithAliases<TCommand extends AnyPadroneCommand, TAliases extends string[]>
   '~types': Omit<TCommand['~types'], 'aliases'> & { aliases: TAliases };
 };
 
+/**
+ * Helper type to move a command and its subcommands under a new parent and name, for a program mounted as a subcommand.
+ */
+type Remount<TCommand extends AnyPadroneCommand, TName extends string, TParentName extends string> = Omit<
+  TCommand,
+  'name' | 'path' | 'commands' | '~types'
+> & {
+  name: TName;
+  path: FullCommandName<TName, TParentName>;
+  commands?: RemountCommands<TCommand['~types']['commands'], FullCommandName<TName, TParentName>>;
+  '~types': Omit<TCommand['~types'], 'name' | 'parentName' | 'path' | 'commands'> & {
+    name: TName;
+    parentName: TParentName;
+    path: FullCommandName<TName, TParentName>;
+    commands: RemountCommands<TCommand['~types']['commands'], FullCommandName<TName, TParentName>>;
+  };
+};
+
+type RemountCommands<TCommands extends AnyPadroneCommand[], TParentName extends string> = {
+  [K in keyof TCommands]: Remount<TCommands[K], TCommands[K]['~types']['name'], TParentName>;
+};
+
 export type PadroneCommand<
   TName extends string = string,
   TParentName extends string = '',
@@ -41,6 +93,7 @@ export type PadroneCommand<
   TAliases extends string[] = string[],
   TConfig extends PadroneSchema<unknown, StandardSchemaV1.InferInput<TOpts>> = PadroneSchema<void>,
   TEnv extends PadroneSchema<unknown, StandardSchemaV1.InferInput<TOpts>> = PadroneSchema<void>,
+  TContext extends object = object,
 > = {
   name: TName;
   path: FullCommandName<TName, TParentName>;
@@ -56,9 +109,32 @@ export type PadroneCommand<
   config?: TConfig;
   envSchema?: TEnv;
   meta?: GetMeta<TOpts>;
-  handler?: (options: StandardSchemaV1.InferOutput<TOpts>) => TRes;
+  handler?: (options: StandardSchemaV1.InferOutput<TOpts>, context: PadroneActionContext<TContext>) => TRes;
+  /**
+   * The name of the subcommand that runs when this command is run without one.
+   * Unless this command has an action, terms that are not subcommands are passed to it as positional arguments.
+   */
+  defaultCommand?: string;
+  /** Formats the result of the action as text for `cli()`, registered with `.render()`. */
+  render?: (result: any) => string;
+  /** Handles subcommands of this command that do not exist, registered with `.fallback()`. */
+  fallback?: (args: string[], context: PadroneActionContext<TContext>) => unknown;
+  /** Whether the command was added with a `lazy()` loader, so that its results are promises. */
+  lazy?: boolean;
+  /** Loads a lazy command that has not been loaded yet, replacing its placeholder fields. */
+  load?: () => Promise<void>;
+  /** The prefix of the executables on the PATH that run as subcommands, set by the `externalCommands` option of `createPadrone()`. */
+  externalCommands?: string;
+  /** Creates the services registered with `.context()`. Services of parent commands are also available to this command. */
+  context?: (parentContext: any) => object;
   /** List of possible config file names to search for. */
   configFiles?: string[];
+  /** Whether unknown options and surplus arguments are rejected. Inherited from the parent when undefined. */
+  strict?: boolean;
+  /** Middleware registered with `.use()`. Middleware of parent commands also applies to this command. */
+  middleware?: PadroneMiddleware[];
+  /** The plugins of a program, installed with `.plugin()`. Only the plugins of the root command are used. */
+  plugins?: PadronePlugin[];
 
   parent?: AnyPadroneCommand;
   commands?: TCommands;
@@ -73,10 +149,21 @@ export type PadroneCommand<
     optionsOutput: StandardSchemaV1.InferOutput<TOpts>;
     result: TRes;
     commands: TCommands;
+    context: TContext;
   };
 };
 
-export type AnyPadroneCommand = PadroneCommand<string, any, any, any, [...AnyPadroneCommand[]], string[]>;
+export type AnyPadroneCommand = PadroneCommand<
+  string,
+  any,
+  any,
+  any,
+  [...AnyPadroneCommand[]],
+  string[],
+  PadroneSchema<void>,
+  PadroneSchema<void>,
+  any
+>;
 
 /**
  * Configuration options for a command.
@@ -92,6 +179,18 @@ export type PadroneCommandConfig = {
   deprecated?: boolean | string;
   /** Whether the command should be hidden from help output. */
   hidden?: boolean;
+  /**
+   * Whether the command must be confirmed before it runs, e.g. because it is destructive, or a function of its options that decides.
+   * `cli()` asks "Are you sure?" unless `--yes` (`-y`) is passed, and refuses to run when there is no terminal to ask on.
+   * `tool()` reports it to the AI SDK, which asks the user for approval of the tool call.
+   */
+  needsApproval?: boolean | ((options: any) => Promise<boolean> | boolean);
+  /**
+   * The name or alias of the subcommand that runs when this command is run without one,
+   * e.g. `'list'` to run `remote list` for `mycli remote`. Options and arguments are passed to the subcommand,
+   * and so are terms that are not subcommands unless this command has an action, e.g. `mycli remote origin`.
+   */
+  defaultCommand?: string;
   /**
    * List of possible config file names to search for.
    * When the CLI runs, it will search for these files in the current directory
@@ -104,6 +203,160 @@ export type PadroneCommandConfig = {
    * @example ['myapp.config.json', 'myapp.config.yaml', '.myapprc']
    */
   configFiles?: string[];
+  /**
+   * Whether to reject options that are not in the schema and positional arguments that are not consumed.
+   * When enabled, parsing throws a `PadroneStrictError` listing the unknown options and unused arguments.
+   *
+   * - `undefined`: Inherit from parent command (default, which is non-strict at the root)
+   * - `true`: Enable strict mode for this command and its subcommands
+   * - `false`: Disable strict mode, e.g. for commands that forward arguments to another tool
+   */
+  strict?: boolean;
+};
+
+/**
+ * The context passed to actions as their second argument.
+ * Services registered with `.context()` are available as properties alongside details of the current run.
+ * Built-in properties take precedence over services with the same name.
+ */
+export type PadroneActionContext<TContext extends object = object> = TContext & PadroneRunContext;
+
+/**
+ * The details of the current run that are passed to actions in their context.
+ */
+type PadroneRunContext = {
+  /** The command being run. */
+  command: AnyPadroneCommand;
+  /** The command line arguments, or an empty array when the command is run programmatically. */
+  argv: string[];
+  /** The validated global options of parent commands. */
+  parentOptions: Record<string, unknown>;
+  /** The data from environment variables, as returned by the env schema. */
+  env?: Record<string, unknown>;
+  /** The data from the config file, as returned by the config schema. */
+  config?: Record<string, unknown>;
+  /** A signal that is aborted when the run is cancelled, e.g. by Ctrl-C in `cli()` or by the `signal` option. */
+  signal: AbortSignal;
+  /**
+   * Registers a cleanup hook that runs when the run is aborted, e.g. to close connections or remove temporary files.
+   * Hooks run in reverse order of registration, and `cli()` waits for them before settling the result.
+   */
+  onAbort: (cleanup: () => unknown) => void;
+  /**
+   * State shared by the commands run in the same `repl()` session, e.g. a selected project.
+   * Outside of a REPL, each run gets a new object.
+   */
+  session: Record<string, unknown>;
+};
+
+/**
+ * Merges the services added by `.context()` into the inherited ones, replacing services with the same name.
+ */
+type MergeContext<TContext extends object, TNewContext extends object> = Omit<TContext, keyof TNewContext> & TNewContext;
+
+/**
+ * The context passed to middleware hooks. It is shared by all hooks of a single command run and can be mutated,
+ * e.g. to replace the options passed to the action or to keep state between `before` and `after`.
+ */
+export type PadroneMiddlewareContext = {
+  /** The command being run. */
+  command: AnyPadroneCommand;
+  /** The validated options that will be passed to the action. */
+  options: unknown;
+  /** The context that will be passed to the action. */
+  context: PadroneActionContext;
+  /** Arbitrary state shared between the hooks of all middleware for this run. */
+  state: Record<string, unknown>;
+};
+
+/**
+ * Hooks that run around the action of a command and its subcommands.
+ * Any hook may return a promise, which makes the command result a promise.
+ */
+export type PadroneMiddleware = {
+  /** Runs before the action. Returning a value other than `undefined` skips the action and uses the value as the result. */
+  before?: (context: PadroneMiddlewareContext) => unknown;
+  /** Runs after the action succeeds. Returning a value other than `undefined` replaces the result. */
+  after?: (context: PadroneMiddlewareContext & { result: unknown }) => unknown;
+  /**
+   * Runs when the action or an inner middleware throws.
+   * Returning a value other than `undefined` recovers with the value as the result, otherwise the error is rethrown.
+   */
+  error?: (context: PadroneMiddlewareContext & { error: unknown }) => unknown;
+};
+
+/**
+ * A flag read by a plugin from the input of every command.
+ */
+export type PadronePluginFlag = {
+  /** Short or alternative names of the flag, e.g. `['h']` for `-h`. */
+  aliases?: string[];
+  /** Describes the flag in the completion scripts. Flags without a description are not offered there. */
+  description?: string;
+  /** Whether the flag never takes a value, e.g. `--yes`, so that the next part of the input goes to the command. */
+  boolean?: boolean;
+};
+
+/**
+ * What a plugin gets to handle the input of the program.
+ */
+export type PadronePluginContext = {
+  /** The root command of the program. */
+  program: AnyPadroneCommand;
+  /** The terms of the input after the program name, or after the command of the plugin when the input starts with it. */
+  terms: string[];
+  /** Whether the input starts with the command of the plugin, rather than containing one of its flags. */
+  invoked: boolean;
+  /** The flags of the plugin found in the input, by their name: the value of the flag, or `true` when it has none. */
+  flags: Record<string, string | true>;
+  /** Finds a command of the program by its path, e.g. `remote add`. */
+  find: (command: string) => AnyPadroneCommand | undefined;
+  /** Loads a lazy command and the lazy commands among its subcommands. Returns a promise only when there is something to load. */
+  load: (command: AnyPadroneCommand) => Promise<void> | void;
+};
+
+/**
+ * What a plugin gets to format the result of a command run by `cli()`.
+ */
+export type PadronePluginOutputContext = PadronePluginContext & {
+  /** The command that was run. */
+  command: AnyPadroneCommand;
+  /** The result of the action, after awaiting it. */
+  result: unknown;
+  /** Whether the result is printed to a terminal, or `undefined` when results are only printed on request, e.g. for an AI tool. */
+  tty?: boolean;
+};
+
+/**
+ * Extends a program with flags, a command and hooks, installed with `.plugin()`.
+ * The built-in `help`, `version`, `completion`, `config`, `output` and `yes` plugins are installed by `createPadrone()`.
+ */
+export type PadronePlugin = {
+  /** Identifies the plugin, e.g. to disable or re-alias it. Installing a plugin with the same name replaces it. */
+  name: string;
+  /** A command that runs the plugin, e.g. `help`. A command of the program with the same name takes precedence. */
+  command?: string;
+  /** The flags read by the plugin, by their long name. */
+  flags?: Record<string, PadronePluginFlag>;
+  /**
+   * Runs when the input starts with the command of the plugin or contains one of its flags, before a command is selected.
+   * Returns the output to print instead of running a command, or `undefined` to let the program handle the input.
+   */
+  run?: (context: PadronePluginContext) => string | Promise<string> | undefined;
+  /** Returns the path of a config file given in the input, which is loaded instead of searching for the config files of the command. */
+  configFile?: (context: PadronePluginContext) => string | undefined;
+  /**
+   * Formats the result of a command run by `cli()`, which prints it. The first plugin that returns a string formats the result.
+   * The built-in `output` plugin formats results as chosen by `--output`.
+   */
+  output?: (context: PadronePluginOutputContext) => string | undefined;
+  /**
+   * Tells whether the input approves the commands that need approval, which then run without asking for confirmation.
+   * The built-in `yes` plugin approves them with `--yes`.
+   */
+  approve?: (context: PadronePluginContext) => boolean | undefined;
+  /** Hooks around the action of every command of the program, which run before the middleware of the commands. */
+  middleware?: PadroneMiddleware;
 };
 
 export type PadroneCommandBuilder<
@@ -115,6 +368,7 @@ export type PadroneCommandBuilder<
   TParentOpts extends PadroneSchema = PadroneSchema<void>,
   TConfig extends PadroneSchema<unknown, StandardSchemaV1.InferInput<TOpts>> = PadroneSchema<void>,
   TEnv extends PadroneSchema<unknown, StandardSchemaV1.InferInput<TOpts>> = PadroneSchema<void>,
+  TContext extends object = object,
 > = {
   /**
    * Configures command properties like title, description, version, deprecated, and hidden.
@@ -129,7 +383,7 @@ export type PadroneCommandBuilder<
    */
   configure: (
     config: PadroneCommandConfig,
-  ) => PadroneCommandBuilder<TName, TParentName, TOpts, TRes, TCommands, TParentOpts, TConfig, TEnv>;
+  ) => PadroneCommandBuilder<TName, TParentName, TOpts, TRes, TCommands, TParentOpts, TConfig, TEnv, TContext>;
 
   /**
    * Defines the options schema for the command, including positional arguments.
@@ -164,7 +418,7 @@ export type PadroneCommandBuilder<
   options: <TOpts extends PadroneSchema = PadroneSchema<void>>(
     options?: TOpts | ((parentOptions: TParentOpts) => TOpts),
     meta?: GetMeta<TOpts>,
-  ) => PadroneCommandBuilder<TName, TParentName, TOpts, TRes, TCommands, TParentOpts, TConfig, TEnv>;
+  ) => PadroneCommandBuilder<TName, TParentName, TOpts, TRes, TCommands, TParentOpts, TConfig, TEnv, TContext>;
 
   /**
    * Configures config file path(s) and schema for parsing config files.
@@ -176,7 +430,7 @@ export type PadroneCommandBuilder<
   configFile: <TNewConfig extends PadroneSchema<unknown, StandardSchemaV1.InferInput<TOpts>> = TOpts>(
     file: string | string[] | undefined,
     schema?: TNewConfig | ((optionsSchema: TOpts) => TNewConfig),
-  ) => PadroneCommandBuilder<TName, TParentName, TOpts, TRes, TCommands, TParentOpts, TNewConfig, TEnv>;
+  ) => PadroneCommandBuilder<TName, TParentName, TOpts, TRes, TCommands, TParentOpts, TNewConfig, TEnv, TContext>;
 
   /**
    * Configures environment variable schema for parsing env vars into options.
@@ -189,14 +443,69 @@ export type PadroneCommandBuilder<
    */
   env: <TNewEnv extends PadroneSchema<unknown, StandardSchemaV1.InferInput<TOpts>> = TOpts>(
     schema: TNewEnv | ((optionsSchema: TOpts) => TNewEnv),
-  ) => PadroneCommandBuilder<TName, TParentName, TOpts, TRes, TCommands, TParentOpts, TConfig, TNewEnv>;
+  ) => PadroneCommandBuilder<TName, TParentName, TOpts, TRes, TCommands, TParentOpts, TConfig, TNewEnv, TContext>;
 
   /**
    * Defines the handler function to be executed when the command is run.
    */
   action: <TRes>(
-    handler?: (options: StandardSchemaV1.InferOutput<TOpts>) => TRes,
-  ) => PadroneCommandBuilder<TName, TParentName, TOpts, TRes, TCommands, TParentOpts, TConfig, TEnv>;
+    handler?: (options: StandardSchemaV1.InferOutput<TOpts>, context: PadroneActionContext<TContext>) => TRes,
+  ) => PadroneCommandBuilder<TName, TParentName, TOpts, TRes, TCommands, TParentOpts, TConfig, TEnv, TContext>;
+
+  /**
+   * Formats the result of the action as text, which `cli()` prints with `--output text` or on a terminal.
+   * @example
+   * ```ts
+   * .render((user) => `${user.name} <${user.email}>`)
+   * ```
+   */
+  render: (
+    renderer: (result: Awaited<TRes>) => string,
+  ) => PadroneCommandBuilder<TName, TParentName, TOpts, TRes, TCommands, TParentOpts, TConfig, TEnv, TContext>;
+
+  /**
+   * Defines the handler for subcommands of this command that do not exist, e.g. to run external commands.
+   * It receives the arguments from the unknown subcommand onward and runs in place of an action.
+   * Unknown subcommands are reported as usual when no fallback is defined.
+   * @example
+   * ```ts
+   * // mycli foo --bar runs mycli-foo --bar
+   * .fallback(([name, ...args]) => spawnSync(`mycli-${name}`, args, { stdio: 'inherit' }).status)
+   * ```
+   */
+  fallback: (
+    handler: (args: string[], context: PadroneActionContext<TContext>) => unknown,
+  ) => PadroneCommandBuilder<TName, TParentName, TOpts, TRes, TCommands, TParentOpts, TConfig, TEnv, TContext>;
+
+  /**
+   * Registers middleware that runs around the action of this command and all of its subcommands.
+   * Subcommands inherit the middleware, whether it is registered before or after they are added.
+   * Middleware of parent commands wraps middleware of their subcommands.
+   * @example
+   * ```ts
+   * .use({
+   *   before: (ctx) => { ctx.state.start = Date.now(); },
+   *   after: (ctx) => { console.log(`${ctx.command.path} took ${Date.now() - (ctx.state.start as number)}ms`); },
+   * })
+   * ```
+   */
+  use: (
+    middleware: PadroneMiddleware,
+  ) => PadroneCommandBuilder<TName, TParentName, TOpts, TRes, TCommands, TParentOpts, TConfig, TEnv, TContext>;
+
+  /**
+   * Registers services that are passed to the actions of this command and all of its subcommands in their context.
+   * The factory receives the services of the parent commands and runs each time a command runs.
+   * Subcommands inherit the services, whether they are registered before or after the subcommands are added.
+   * @example
+   * ```ts
+   * .context((parent) => ({ repo: createRepo(parent.db) }))
+   * .action((options, ctx) => ctx.repo.list())
+   * ```
+   */
+  context: <TNewContext extends object>(
+    factory: (parentContext: TContext) => TNewContext,
+  ) => PadroneCommandBuilder<TName, TParentName, TOpts, TRes, TCommands, TParentOpts, TConfig, TEnv, MergeContext<TContext, TNewContext>>;
 
   /**
    * Creates a nested command within the current command with the given name and builder function.
@@ -208,33 +517,156 @@ export type PadroneCommandBuilder<
    *
    * // Name with aliases
    * .command(['list', 'ls', 'l'], (c) => c.action(() => 'list'))
+   *
+   * // Loaded when it first runs, with the builder function exported by the module
+   * .command('deploy', lazy(() => import('./deploy.ts')), { title: 'Deploy the app' })
    * ```
    */
-  command: <
-    TNameNested extends string,
-    TAliases extends string[] = [],
-    TBuilder extends PadroneCommandBuilder<
-      TNameNested,
-      FullCommandName<TName, TParentName>,
-      any,
-      any,
-      AnyPadroneCommand[],
-      TOpts
-    > = PadroneCommandBuilder<TNameNested, FullCommandName<TName, TParentName>, any, any, [], TOpts, TConfig>,
-  >(
+  command: {
+    <
+      TNameNested extends string,
+      TAliases extends string[] = [],
+      TBuilder extends PadroneCommandBuilder<
+        TNameNested,
+        FullCommandName<TName, TParentName>,
+        any,
+        any,
+        AnyPadroneCommand[],
+        TOpts,
+        any,
+        any,
+        any
+      > = PadroneCommandBuilder<
+        TNameNested,
+        FullCommandName<TName, TParentName>,
+        any,
+        any,
+        [],
+        TOpts,
+        TConfig,
+        PadroneSchema<void>,
+        TContext
+      >,
+    >(
+      name: TNameNested | readonly [TNameNested, ...TAliases],
+      builderFn?: (
+        builder: PadroneCommandBuilder<
+          TNameNested,
+          FullCommandName<TName, TParentName>,
+          any,
+          any,
+          [],
+          TOpts,
+          PadroneSchema<void>,
+          PadroneSchema<void>,
+          TContext
+        >,
+      ) => TBuilder,
+    ): PadroneCommandBuilder<
+      TName,
+      TParentName,
+      TOpts,
+      TRes,
+      TCommands extends []
+        ? [WithAliases<TBuilder['~types']['command'], TAliases>]
+        : [...TCommands, WithAliases<TBuilder['~types']['command'], TAliases>],
+      TParentOpts,
+      TConfig,
+      TEnv,
+      TContext
+    >;
+
+    /**
+     * Adds a command that is loaded when it is first selected, so that its dependencies are only imported when needed,
+     * e.g. `command('deploy', lazy(() => import('./deploy.ts')))`. Only its name, aliases and config are known until then. Its results are promises, since running it may load it.
+     * Subcommands defined by the loaded builder can be found and run once it has been loaded.
+     */
+    <
+      TNameNested extends string,
+      TAliases extends string[] = [],
+      TBuilder extends PadroneCommandBuilder<
+        TNameNested,
+        FullCommandName<TName, TParentName>,
+        any,
+        any,
+        AnyPadroneCommand[],
+        TOpts,
+        any,
+        any,
+        any
+      > = PadroneCommandBuilder<
+        TNameNested,
+        FullCommandName<TName, TParentName>,
+        any,
+        any,
+        [],
+        TOpts,
+        TConfig,
+        PadroneSchema<void>,
+        TContext
+      >,
+    >(
+      name: TNameNested | readonly [TNameNested, ...TAliases],
+      loader: PadroneLazyLoader<
+        PadroneCommandModule<
+          (
+            builder: PadroneCommandBuilder<
+              TNameNested,
+              FullCommandName<TName, TParentName>,
+              any,
+              any,
+              [],
+              TOpts,
+              PadroneSchema<void>,
+              PadroneSchema<void>,
+              TContext
+            >,
+          ) => TBuilder
+        >
+      >,
+      config?: PadroneCommandConfig,
+    ): PadroneCommandBuilder<
+      TName,
+      TParentName,
+      TOpts,
+      TRes,
+      TCommands extends []
+        ? [WithAliases<AsLazy<TBuilder['~types']['command']>, TAliases>]
+        : [...TCommands, WithAliases<AsLazy<TBuilder['~types']['command']>, TAliases>],
+      TParentOpts,
+      TConfig,
+      TEnv,
+      TContext
+    >;
+  };
+
+  /**
+   * Adds an existing program as a subcommand with the given name, along with all of its commands.
+   * The name can be a single string or a tuple of [name, ...aliases] where additional strings are aliases.
+   * The mounted commands inherit the config files, config and env schemas of this command unless the program sets its own.
+   * @example
+   * ```ts
+   * const db = createPadrone('db').command('migrate', (c) => c.action(migrate));
+   *
+   * // mycli db migrate
+   * createPadrone('mycli').mount('db', db)
+   * ```
+   */
+  mount: <TNameNested extends string, TProgram extends { '~types': { command: AnyPadroneCommand } }, TAliases extends string[] = []>(
     name: TNameNested | readonly [TNameNested, ...TAliases],
-    builderFn?: (builder: PadroneCommandBuilder<TNameNested, FullCommandName<TName, TParentName>, any, any, [], TOpts>) => TBuilder,
+    program: TProgram,
   ) => PadroneCommandBuilder<
     TName,
     TParentName,
     TOpts,
     TRes,
     TCommands extends []
-      ? [WithAliases<TBuilder['~types']['command'], TAliases>]
-      : [...TCommands, WithAliases<TBuilder['~types']['command'], TAliases>],
+      ? [WithAliases<Remount<TProgram['~types']['command'], TNameNested, FullCommandName<TName, TParentName>>, TAliases>]
+      : [...TCommands, WithAliases<Remount<TProgram['~types']['command'], TNameNested, FullCommandName<TName, TParentName>>, TAliases>],
     TParentOpts,
     TConfig,
-    TEnv
+    TEnv,
+    TContext
   >;
 
   /** @deprecated Internal use only */
@@ -246,7 +678,7 @@ export type PadroneCommandBuilder<
     options: TOpts;
     result: TRes;
     commands: TCommands;
-    command: PadroneCommand<TName, TParentName, TOpts, TRes, TCommands, []>;
+    command: PadroneCommand<TName, TParentName, TOpts, TRes, TCommands, [], PadroneSchema<void>, PadroneSchema<void>, TContext>;
   };
 };
 
@@ -257,7 +689,11 @@ export type PadroneProgram<
   TCommands extends [...AnyPadroneCommand[]] = [],
   TConfig extends PadroneSchema<unknown, StandardSchemaV1.InferInput<TOpts>> = PadroneSchema<void>,
   TEnv extends PadroneSchema<unknown, StandardSchemaV1.InferInput<TOpts>> = PadroneSchema<void>,
-> = Omit<PadroneCommandBuilder<'', '', TOpts, TRes, TCommands, PadroneSchema<void>>, 'command' | 'configure' | 'configFile' | 'env'> & {
+  TContext extends object = object,
+> = Omit<
+  PadroneCommandBuilder<'', '', TOpts, TRes, TCommands, PadroneSchema<void>, PadroneSchema<void>, PadroneSchema<void>, TContext>,
+  'command' | 'mount' | 'configure' | 'options' | 'action' | 'render' | 'fallback' | 'configFile' | 'env' | 'use' | 'context'
+> & {
   /**
    * Configures program properties like title, description, version, deprecated, hidden, and configFiles.
    * @example
@@ -269,7 +705,32 @@ export type PadroneProgram<
    * })
    * ```
    */
-  configure: (config: PadroneCommandConfig) => PadroneProgram<'', TOpts, TRes, TCommands, TConfig, TEnv>;
+  configure: (config: PadroneCommandConfig) => PadroneProgram<'', TOpts, TRes, TCommands, TConfig, TEnv, TContext>;
+
+  /**
+   * Defines the options schema of the program itself.
+   * Options marked as `global` in the meta are accepted and validated for every command in the program.
+   * @example
+   * ```ts
+   * .options(z.object({ verbose: z.boolean().default(false) }), { options: { verbose: { global: true } } })
+   * ```
+   */
+  options: <TNewOpts extends PadroneSchema = PadroneSchema<void>>(
+    options?: TNewOpts | ((parentOptions: PadroneSchema<void>) => TNewOpts),
+    meta?: GetMeta<TNewOpts>,
+  ) => PadroneProgram<'', TNewOpts, TRes, TCommands, TConfig, TEnv, TContext>;
+
+  /**
+   * Defines the handler function to be executed when the program is run without a subcommand.
+   */
+  action: <TNewRes>(
+    handler?: (options: StandardSchemaV1.InferOutput<TOpts>, context: PadroneActionContext<TContext>) => TNewRes,
+  ) => PadroneProgram<'', TOpts, TNewRes, TCommands, TConfig, TEnv, TContext>;
+
+  /**
+   * Formats the result of the action of the program as text, which `cli()` prints with `--output text` or on a terminal.
+   */
+  render: (renderer: (result: Awaited<TRes>) => string) => PadroneProgram<'', TOpts, TRes, TCommands, TConfig, TEnv, TContext>;
 
   /**
    * Configures config file path(s) and schema for parsing config files.
@@ -281,7 +742,7 @@ export type PadroneProgram<
   configFile: <TNewConfig extends PadroneSchema<unknown, StandardSchemaV1.InferInput<TOpts>> = TOpts>(
     file: string | string[] | undefined,
     schema?: TNewConfig | ((optionsSchema: TOpts) => TNewConfig),
-  ) => PadroneProgram<'', TOpts, TRes, TCommands, TNewConfig, TEnv>;
+  ) => PadroneProgram<'', TOpts, TRes, TCommands, TNewConfig, TEnv, TContext>;
 
   /**
    * Configures environment variable schema for parsing env vars into options.
@@ -294,7 +755,46 @@ export type PadroneProgram<
    */
   env: <TNewEnv extends PadroneSchema<unknown, StandardSchemaV1.InferInput<TOpts>> = TOpts>(
     schema: TNewEnv | ((optionsSchema: TOpts) => TNewEnv),
-  ) => PadroneProgram<'', TOpts, TRes, TCommands, TConfig, TNewEnv>;
+  ) => PadroneProgram<'', TOpts, TRes, TCommands, TConfig, TNewEnv, TContext>;
+
+  /**
+   * Registers middleware that runs around the action of every command in the program.
+   * Commands inherit the middleware, whether it is registered before or after they are added.
+   * @example
+   * ```ts
+   * .use({
+   *   before: (ctx) => { if (!isLoggedIn()) throw new PadroneError('Please log in first'); },
+   * })
+   * ```
+   */
+  use: (middleware: PadroneMiddleware) => PadroneProgram<'', TOpts, TRes, TCommands, TConfig, TEnv, TContext>;
+
+  /**
+   * Defines the handler for commands that do not exist, e.g. to run git-style external commands.
+   * It receives the arguments from the unknown command onward and runs in place of an action.
+   * @example
+   * ```ts
+   * // mycli foo --bar runs mycli-foo --bar
+   * .fallback(([name, ...args]) => spawnSync(`mycli-${name}`, args, { stdio: 'inherit' }).status)
+   * ```
+   */
+  fallback: (
+    handler: (args: string[], context: PadroneActionContext<TContext>) => unknown,
+  ) => PadroneProgram<'', TOpts, TRes, TCommands, TConfig, TEnv, TContext>;
+
+  /**
+   * Registers services that are passed to the actions of every command in the program in their context,
+   * e.g. database clients or loggers. The factory runs each time a command runs.
+   * Commands inherit the services, whether they are registered before or after the commands are added.
+   * @example
+   * ```ts
+   * .context(() => ({ db: createDb(), logger: console }))
+   * .command('list', (c) => c.action((options, ctx) => ctx.db.list()))
+   * ```
+   */
+  context: <TNewContext extends object>(
+    factory: (parentContext: TContext) => TNewContext,
+  ) => PadroneProgram<'', TOpts, TRes, TCommands, TConfig, TEnv, MergeContext<TContext, TNewContext>>;
 
   /**
    * Creates a command within the program with the given name and builder function.
@@ -306,35 +806,160 @@ export type PadroneProgram<
    *
    * // Name with aliases
    * .command(['list', 'ls', 'l'], (c) => c.action(() => 'list'))
+   *
+   * // Loaded when it first runs, with the builder function exported by the module
+   * .command('deploy', lazy(() => import('./deploy.ts')), { title: 'Deploy the app' })
    * ```
    */
-  command: <
-    TNameNested extends string,
-    TAliases extends string[] = [],
-    TBuilder extends PadroneCommandBuilder<TNameNested, '', any, any, AnyPadroneCommand[], PadroneSchema<void>> = PadroneCommandBuilder<
-      TNameNested,
+  command: {
+    <
+      TNameNested extends string,
+      TAliases extends string[] = [],
+      TBuilder extends PadroneCommandBuilder<
+        TNameNested,
+        '',
+        any,
+        any,
+        AnyPadroneCommand[],
+        PadroneSchema<void>,
+        any,
+        any,
+        any
+      > = PadroneCommandBuilder<TNameNested, '', any, any, [], PadroneSchema<void>, PadroneSchema<void>, PadroneSchema<void>, TContext>,
+    >(
+      name: TNameNested | readonly [TNameNested, ...TAliases],
+      builderFn?: (
+        builder: PadroneCommandBuilder<
+          TNameNested,
+          '',
+          any,
+          any,
+          [],
+          PadroneSchema<void>,
+          PadroneSchema<void>,
+          PadroneSchema<void>,
+          TContext
+        >,
+      ) => TBuilder,
+    ): PadroneProgram<
       '',
-      any,
-      any,
-      [],
-      PadroneSchema<void>
-    >,
-  >(
+      TOpts,
+      TRes,
+      TCommands extends []
+        ? [WithAliases<TBuilder['~types']['command'], TAliases>]
+        : [...TCommands, WithAliases<TBuilder['~types']['command'], TAliases>],
+      TConfig,
+      TEnv,
+      TContext
+    >;
+
+    /**
+     * Adds a command that is loaded when it is first selected, so that its dependencies are only imported when needed,
+     * e.g. `command('deploy', lazy(() => import('./deploy.ts')))`. Only its name, aliases and config are known until then. Its results are promises, since running it may load it.
+     * Subcommands defined by the loaded builder can be found and run once it has been loaded, e.g. with `load()`.
+     */
+    <
+      TNameNested extends string,
+      TAliases extends string[] = [],
+      TBuilder extends PadroneCommandBuilder<
+        TNameNested,
+        '',
+        any,
+        any,
+        AnyPadroneCommand[],
+        PadroneSchema<void>,
+        any,
+        any,
+        any
+      > = PadroneCommandBuilder<TNameNested, '', any, any, [], PadroneSchema<void>, PadroneSchema<void>, PadroneSchema<void>, TContext>,
+    >(
+      name: TNameNested | readonly [TNameNested, ...TAliases],
+      loader: PadroneLazyLoader<
+        PadroneCommandModule<
+          (
+            builder: PadroneCommandBuilder<
+              TNameNested,
+              '',
+              any,
+              any,
+              [],
+              PadroneSchema<void>,
+              PadroneSchema<void>,
+              PadroneSchema<void>,
+              TContext
+            >,
+          ) => TBuilder
+        >
+      >,
+      config?: PadroneCommandConfig,
+    ): PadroneProgram<
+      '',
+      TOpts,
+      TRes,
+      TCommands extends []
+        ? [WithAliases<AsLazy<TBuilder['~types']['command']>, TAliases>]
+        : [...TCommands, WithAliases<AsLazy<TBuilder['~types']['command']>, TAliases>],
+      TConfig,
+      TEnv,
+      TContext
+    >;
+  };
+
+  /**
+   * Adds an existing program as a subcommand with the given name, along with all of its commands.
+   * The name can be a single string or a tuple of [name, ...aliases] where additional strings are aliases.
+   * The mounted commands inherit the config files, config and env schemas of this command unless the program sets its own.
+   * @example
+   * ```ts
+   * const db = createPadrone('db').command('migrate', (c) => c.action(migrate));
+   *
+   * // mycli db migrate
+   * createPadrone('mycli').mount('db', db)
+   * ```
+   */
+  mount: <TNameNested extends string, TProgram extends { '~types': { command: AnyPadroneCommand } }, TAliases extends string[] = []>(
     name: TNameNested | readonly [TNameNested, ...TAliases],
-    builderFn?: (builder: PadroneCommandBuilder<TNameNested, '', any, any, [], PadroneSchema<void>>) => TBuilder,
+    program: TProgram,
   ) => PadroneProgram<
     '',
     TOpts,
     TRes,
     TCommands extends []
-      ? [WithAliases<TBuilder['~types']['command'], TAliases>]
-      : [...TCommands, WithAliases<TBuilder['~types']['command'], TAliases>],
+      ? [WithAliases<Remount<TProgram['~types']['command'], TNameNested, ''>, TAliases>]
+      : [...TCommands, WithAliases<Remount<TProgram['~types']['command'], TNameNested, ''>, TAliases>],
     TConfig,
-    TEnv
+    TEnv,
+    TContext
   >;
 
+  /**
+   * Loads a lazy command, or every lazy command in the program when no command is given,
+   * e.g. before finding or running the subcommands of a lazy command, or before generating documentation.
+   */
+  load: (command?: GetCommandPaths<[PadroneCommand<'', '', TOpts, TRes, TCommands>]> | SafeString) => Promise<void>;
+
+  /**
+   * Installs a plugin, replacing an installed plugin with the same name.
+   * With the name of an installed plugin, disables it or replaces the aliases of its flags instead,
+   * e.g. to free short flags used by the options of the program.
+   * @example
+   * ```ts
+   * .plugin(updateNotifier)
+   * .plugin('version', { flags: { version: ['V'] } })
+   * .plugin('completion', false)
+   * ```
+   */
+  plugin: {
+    (plugin: PadronePlugin): PadroneProgram<'', TOpts, TRes, TCommands, TConfig, TEnv, TContext>;
+    (
+      name: string,
+      config: false | { flags?: Record<string, string[]> },
+    ): PadroneProgram<'', TOpts, TRes, TCommands, TConfig, TEnv, TContext>;
+  };
+
   /**
    * Runs a command programmatically by name with provided options (including positional args).
+   * Services passed as `context` take precedence over the ones registered with `.context()`, e.g. to inject test doubles.
    */
   run: <
     const TCommand extends
@@ -343,24 +968,45 @@ export type PadroneProgram<
   >(
     name: TCommand | SafeString,
     options: NoInfer<GetOptions<'in', PickCommandByName<[PadroneCommand<'', '', TOpts, TRes, TCommands>], TCommand>>>,
+    context?: NoInfer<Partial<PickCommandByName<[PadroneCommand<'', '', TOpts, TRes, TCommands>], TCommand>['~types']['context']>>,
   ) => PadroneCommandResult<PickCommandByName<[PadroneCommand<'', '', TOpts, TRes, TCommands>], TCommand>>;
 
   /**
    * Runs the program as a CLI application, parsing `process.argv` or provided input.
+   * The input can be a command line string, or an argv array whose items are used as-is without re-tokenizing.
+   * If the action returns a promise, it is returned as `result` and its rejection is wrapped in a `PadroneActionError`.
+   * Callers should await `result` and handle its rejection, or set `exitOnError` to print it and exit like a thrown error.
    */
   cli: <const TCommand extends PossibleCommands<[PadroneCommand<'', '', TOpts, TRes, TCommands>]>>(
-    input?: TCommand | SafeString,
-    options?: PadroneParseOptions,
+    input?: TCommand | SafeString | string[],
+    options?: PadroneCliOptions<TContext>,
   ) => PadroneCommandResult<PickCommandByPossibleCommands<[PadroneCommand<'', '', TOpts, TRes, TCommands>], TCommand>>;
 
   /**
-   * Parses CLI input (or the provided input string) into command, args, and options without executing anything.
+   * Same as `cli()`, but awaits schemas with async validation (e.g. `z.refine(async ...)`) for options, env and config,
+   * and awaits the result of async actions.
+   */
+  cliAsync: <const TCommand extends PossibleCommands<[PadroneCommand<'', '', TOpts, TRes, TCommands>]>>(
+    input?: TCommand | SafeString | string[],
+    options?: PadroneCliOptions<TContext>,
+  ) => Promise<PadroneCommandResult<PickCommandByPossibleCommands<[PadroneCommand<'', '', TOpts, TRes, TCommands>], TCommand>, true>>;
+
+  /**
+   * Parses CLI input (or the provided input string or argv array) into command, args, and options without executing anything.
    */
   parse: <const TCommand extends PossibleCommands<[PadroneCommand<'', '', TOpts, TRes, TCommands>]>>(
-    input?: TCommand | SafeString,
+    input?: TCommand | SafeString | string[],
     options?: PadroneParseOptions,
   ) => PadroneParseResult<PickCommandByPossibleCommands<[PadroneCommand<'', '', TOpts, TRes, TCommands>], TCommand>>;
 
+  /**
+   * Same as `parse()`, but awaits schemas with async validation (e.g. `z.refine(async ...)`) for options and env.
+   */
+  parseAsync: <const TCommand extends PossibleCommands<[PadroneCommand<'', '', TOpts, TRes, TCommands>]>>(
+    input?: TCommand | SafeString | string[],
+    options?: PadroneParseOptions,
+  ) => Promise<PadroneParseResult<PickCommandByPossibleCommands<[PadroneCommand<'', '', TOpts, TRes, TCommands>], TCommand>>>;
+
   /**
    * Converts command and options back into a CLI string.
    */
@@ -382,25 +1028,35 @@ export type PadroneProgram<
 
   /**
    * Generates a type-safe API for invoking commands programmatically.
+   * Services passed as `context` take precedence over the ones registered with `.context()`, e.g. to inject test doubles.
    */
-  api: () => PadroneAPI<PadroneCommand<'', '', TOpts, TRes, TCommands>>;
-
-  // TODO: implement interactive and repl methods
+  api: (context?: Partial<TContext>) => PadroneAPI<PadroneCommand<'', '', TOpts, TRes, TCommands>>;
 
   /**
-   * Starts an interactive prompt to run commands.
+   * Same as `cliAsync()`, but asks for required options that are missing from the input, including positional arguments.
+   * The prompt matches the type of each option: a select for enums, a confirm for booleans, a multi-select for arrays of enums
+   * and text otherwise. Answers are validated by the schema and asked again when invalid.
+   * Prompts are skipped when stdin is not a TTY, unless an `input` stream is provided.
    */
-  // interactive: () => Promise<PadroneCommandResult<FlattenCommands<[TCmd]>> | undefined>;
+  interactive: <const TCommand extends PossibleCommands<[PadroneCommand<'', '', TOpts, TRes, TCommands>]>>(
+    input?: TCommand | SafeString | string[],
+    options?: PadroneInteractiveOptions<TContext>,
+  ) => Promise<PadroneCommandResult<PickCommandByPossibleCommands<[PadroneCommand<'', '', TOpts, TRes, TCommands>], TCommand>, true>>;
 
   /**
-   * Starts a REPL (Read-Eval-Print Loop) for running commands interactively.
+   * Starts a REPL (Read-Eval-Print Loop) that runs each line as a command, like `cliAsync()`.
+   * Errors are printed and the session goes on. `help` shows help, and `exit` or `quit` ends the session, unless the
+   * program defines commands with these names. Ctrl-C aborts the running command, or ends the session when idle.
+   * Resolves with the results of the commands that succeeded when the session ends or the input is closed.
    */
-  // repl: () => Promise<PadroneCommandResult<FlattenCommands<[TCmd]>>[]>;
+  repl: (
+    options?: PadroneReplOptions<TContext>,
+  ) => Promise<PadroneCommandResult<FlattenCommands<[PadroneCommand<'', '', TOpts, TRes, TCommands>]>, true>[]>;
 
   /**
    * Returns a tool definition that can be passed to AI SDK.
    */
-  tool: () => Tool<{ command: string }>;
+  tool: () => Tool<{ command: string | string[] }>;
 
   /**
    * Returns the help information for the program or a specific command.
@@ -436,10 +1092,17 @@ export type PadroneProgram<
   };
 };
 
-export type AnyPadroneProgram = PadroneProgram<string, any, any, [...AnyPadroneCommand[]]>;
+export type AnyPadroneProgram = PadroneProgram<string, any, any, [...AnyPadroneCommand[]], PadroneSchema<void>, PadroneSchema<void>, any>;
 
-export type PadroneCommandResult<TCommand extends AnyPadroneCommand = AnyPadroneCommand> = PadroneParseResult<TCommand> & {
-  result: GetResults<TCommand>;
+/**
+ * The result of running a command.
+ * When `TAwaited` is true, as with `cliAsync()`, a promise returned by the action has already been awaited.
+ */
+export type PadroneCommandResult<
+  TCommand extends AnyPadroneCommand = AnyPadroneCommand,
+  TAwaited extends boolean = false,
+> = PadroneParseResult<TCommand> & {
+  result: TAwaited extends true ? Awaited<GetResults<TCommand>> : GetResults<TCommand>;
 };
 
 /**
@@ -461,12 +1124,55 @@ export type PadroneParseOptions = {
    * This should be the parsed content of a config file (JSON, YAML, etc.).
    */
   configData?: Record<string, unknown>;
+  /**
+   * A signal to cancel the run. It aborts the signal passed to actions in their context.
+   */
+  signal?: AbortSignal;
+};
+
+/**
+ * Options of a program, passed to `createPadrone()`.
+ */
+export type PadroneProgramOptions = {
+  /**
+   * Whether commands that are not registered run an executable named after the program and the command on the PATH,
+   * like git does, e.g. `mycli foo --bar` runs `mycli-foo --bar`. A string sets the prefix of the executables instead of `mycli-`.
+   * External commands are listed in the help of the program and offered by its completion scripts.
+   */
+  externalCommands?: boolean | string;
+};
+
+export type PadroneCliOptions<TContext extends object = object> = PadroneParseOptions & {
+  /**
+   * When true, Padrone errors are printed to stderr and the process exits with the error's exit code instead of throwing.
+   * Unexpected errors are printed as-is and exit with code 1.
+   */
+  exitOnError?: boolean;
+  /**
+   * Whether SIGINT and SIGTERM abort the run while an async action is pending. A second signal exits the process right away.
+   * Defaults to `true`.
+   */
+  handleSignals?: boolean;
+  /** Services that take precedence over the ones registered with `.context()`, e.g. to inject test doubles. */
+  context?: Partial<TContext>;
 };
 
+export type PadroneInteractiveOptions<TContext extends object = object> = PadroneCliOptions<TContext> & PadronePromptStreams;
+
+export type PadroneReplOptions<TContext extends object = object> = Omit<PadroneCliOptions<TContext>, 'exitOnError' | 'handleSignals'> &
+  PadronePromptStreams & {
+    /** The prompt shown before each line. Defaults to the program name followed by `> `. */
+    prompt?: string;
+    /** A file that the history is loaded from and appended to, so that it is kept across sessions. */
+    historyFile?: string;
+  };
+
 export type PadroneParseResult<TCommand extends AnyPadroneCommand = AnyPadroneCommand> = {
   command: TCommand;
   options?: GetOptions<'out', TCommand>;
   optionsResult?: StandardSchemaV1.Result<GetOptions<'out', TCommand>>;
+  /** "Did you mean" suggestions for mistyped subcommands and unknown options, if there are close matches. */
+  suggestions?: PadroneSuggestion[];
 };
 
 export type PadroneAPI<TCommand extends AnyPadroneCommand> = PadroneAPICommand<TCommand> & {
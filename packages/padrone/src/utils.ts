@@ -129,3 +129,20 @@ export function findConfigFile(configFiles: string[]): string | undefined {
 
   return undefined;
 }
+
+export type MaybePromise<T> = T | Promise<T>;
+
+/**
+ * Checks whether a value is a promise or a promise-like object with a `then` method.
+ */
+export function isThenable(value: unknown): value is PromiseLike<unknown> {
+  return !!value && (typeof value === 'object' || typeof value === 'function') && typeof (value as any).then === 'function';
+}
+
+/**
+ * Applies `fn` to a value that may be a promise, staying synchronous when the value is not a promise.
+ * This lets the same pipeline serve both sync and async schema validation.
+ */
+export function thenMaybe<T, R>(value: MaybePromise<T>, fn: (value: T) => MaybePromise<R>): MaybePromise<R> {
+  return value instanceof Promise ? value.then(fn) : fn(value);
+}
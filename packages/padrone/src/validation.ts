@@ -0,0 +1,141 @@
+import type { StandardSchemaV1 } from '@standard-schema/spec';
+import type { Colorizer } from './colorizer.ts';
+import { extractSchemaMetadata, parsePositionalConfig } from './options.ts';
+import type { AnyPadroneCommand } from './types.ts';
+
+/**
+ * A schema issue for a command's options, mapped back to how the option is spelled on the command line.
+ */
+export type PadroneValidationIssue = {
+  /** The CLI spelling of the option or positional argument, e.g. `--port` or `<source>`. Empty for issues on the options object itself. */
+  name: string;
+  /** Aliases of the option as they are spelled on the command line, e.g. `['-p']`. */
+  aliases: string[];
+  /** The message reported by the schema. */
+  message: string;
+  /** The value that failed validation, or `undefined` if it was missing. */
+  received?: unknown;
+  /** The expected type or enum values from the JSON schema, e.g. `number` or `"dev" | "prod"`. */
+  expected?: string;
+  /** The issue as reported by the schema. */
+  issue: StandardSchemaV1.Issue;
+};
+
+/**
+ * Maps the issues of a command's options schema back to the CLI spelling of each option,
+ * along with the received value and the expected type from the JSON schema.
+ * @param input - The options object that was validated
+ * @param owners - The commands that declare the global options in `input`, by option name
+ */
+export function describeOptionIssues(
+  command: AnyPadroneCommand,
+  issues: readonly StandardSchemaV1.Issue[],
+  input: Record<string, unknown>,
+  owners?: ReadonlyMap<string, AnyPadroneCommand>,
+): PadroneValidationIssue[] {
+  const described = new Map<AnyPadroneCommand, ReturnType<typeof describeOptions>>();
+  const describe = (command: AnyPadroneCommand) => {
+    if (!described.has(command)) described.set(command, describeOptions(command));
+    return described.get(command)!;
+  };
+
+  return issues.map((issue) => {
+    const path = (issue.path ?? []).map((segment) => (typeof segment === 'object' ? segment.key : segment));
+    const [key] = path;
+    if (key === undefined) return { name: '', aliases: [], message: issue.message, issue };
+
+    // Global options are spelled as declared by the command that owns them
+    const { positionalConfig, aliases, properties } = describe(owners?.get(String(key)) ?? command);
+    const positional = positionalConfig.find((p) => p.name === String(key));
+    const optionPath = path.filter((segment) => typeof segment !== 'number').map(String);
+    const name = positional ? `<${positional.name}${positional.variadic ? '...' : ''}>` : `--${optionPath.join('.')}`;
+    const optionAliases = positional
+      ? []
+      : Object.entries(aliases)
+          .filter(([, target]) => target === String(key))
+          .map(([alias]) => `-${alias}`);
+
+    let received: unknown = input;
+    let schema: Record<string, any> | undefined = properties[String(key)];
+    for (const [index, segment] of path.entries()) {
+      received = received && typeof received === 'object' ? (received as Record<PropertyKey, unknown>)[segment] : undefined;
+      if (index === 0) continue;
+      schema = typeof segment === 'number' ? schema?.items : schema?.properties?.[String(segment)];
+    }
+
+    // Relations between options are about which options are set rather than their values
+    if ('relation' in issue) return { name, aliases: optionAliases, message: issue.message, issue };
+    return { name, aliases: optionAliases, message: issue.message, received, expected: describeSchemaType(schema), issue };
+  });
+}
+
+/**
+ * Collects the positional arguments, aliases and JSON schema properties of a command's options.
+ */
+function describeOptions(command: AnyPadroneCommand) {
+  const positionalConfig = command.meta?.positional ? parsePositionalConfig(command.meta.positional) : [];
+  const { aliases } = command.options ? extractSchemaMetadata(command.options, command.meta?.options) : { aliases: {} };
+
+  let properties: Record<string, any> = {};
+  try {
+    const jsonSchema = command.options?.['~standard'].jsonSchema.input({ target: 'draft-2020-12' }) as Record<string, any> | undefined;
+    if (jsonSchema?.type === 'object' && jsonSchema.properties) properties = jsonSchema.properties;
+  } catch {
+    // Without a JSON schema, issues are reported without expected types
+  }
+
+  return { positionalConfig, aliases, properties };
+}
+
+/**
+ * Describes the type accepted by a JSON schema, e.g. `number`, `string[]` or `"dev" | "prod"`.
+ */
+function describeSchemaType(schema: Record<string, any> | undefined): string | undefined {
+  if (!schema) return undefined;
+  if (Array.isArray(schema.enum)) return schema.enum.map((value: unknown) => JSON.stringify(value)).join(' | ');
+  if ('const' in schema) return JSON.stringify(schema.const);
+
+  const variants = schema.anyOf ?? schema.oneOf;
+  if (Array.isArray(variants)) {
+    const described = variants.map(describeSchemaType).filter(Boolean);
+    return described.length ? described.join(' | ') : undefined;
+  }
+
+  if (Array.isArray(schema.type)) return schema.type.join(' | ');
+  if (schema.type === 'array') return `${describeSchemaType(schema.items) ?? 'unknown'}[]`;
+  if (typeof schema.type === 'string') return schema.type;
+  return undefined;
+}
+
+/**
+ * Formats validation issues as a report for the user, e.g.:
+ * ```
+ * Invalid options for command "serve":
+ *   --port, -p: Invalid input: expected number, received string
+ *     received: "abc"
+ *     expected: number
+ * ```
+ */
+export function formatValidationReport(command: string, issues: PadroneValidationIssue[], colorizer: Colorizer): string {
+  const target = command ? `command "${command}"` : 'program';
+  const lines = [colorizer.label(`Invalid options for ${target}:`)];
+
+  for (const { name, aliases, message, received, expected } of issues) {
+    const label = [name || 'options', ...aliases].map((n) => colorizer.option(n)).join(', ');
+    lines.push(`  ${label}: ${message}`);
+    if (received !== undefined) lines.push(`    ${colorizer.meta('received:')} ${colorizer.exampleValue(formatValue(received))}`);
+    if (expected) lines.push(`    ${colorizer.meta('expected:')} ${colorizer.type(expected)}`);
+  }
+
+  return lines.join('\n');
+}
+
+function formatValue(value: unknown): string {
+  if (typeof value === 'string') return JSON.stringify(value);
+  if (!value || typeof value !== 'object') return String(value);
+  try {
+    return JSON.stringify(value);
+  } catch {
+    return String(value);
+  }
+}
@@ -0,0 +1,210 @@
+import { describe, expect, it, spyOn } from 'bun:test';
+import { createPadrone, PadroneAbortError, PadroneActionError, PadroneExitCode } from 'padrone';
+import { createConsoleMocker } from './console-mocker.ts';
+
+/**
+ * Resolves when the signal is aborted, rejecting with its reason like a cancellable API would.
+ */
+const waitForAbort = (signal: AbortSignal) =>
+  new Promise<never>((_, reject) => {
+    if (signal.aborted) reject(signal.reason);
+    signal.addEventListener('abort', () => reject(signal.reason));
+  });
+
+const createProgram = (log: string[] = []) =>
+  createPadrone('test')
+    .command('wait', (c) =>
+      c.action(async (_, ctx) => {
+        ctx.onAbort(() => log.push('first'));
+        ctx.onAbort(async () => {
+          await Promise.resolve();
+          log.push('second');
+        });
+        await waitForAbort(ctx.signal);
+      }),
+    )
+    .command('ignore', (c) =>
+      c.action(async (_, ctx) => {
+        await new Promise((resolve) => ctx.signal.addEventListener('abort', resolve));
+        return 'done';
+      }),
+    );
+
+describe('Abort', () => {
+  createConsoleMocker();
+
+  describe('signal option', () => {
+    it('should abort the signal passed to the action', async () => {
+      const controller = new AbortController();
+      const promise = createProgram().cliAsync('wait', { signal: controller.signal });
+      controller.abort();
+
+      const error = await promise.catch((e) => e);
+      expect(error).toBeInstanceOf(PadroneAbortError);
+      expect(error.message).toBe('Command "wait" was aborted');
+      expect(error.exitCode).toBe(PadroneExitCode.aborted);
+      expect((error.cause as Error).name).toBe('AbortError');
+    });
+
+    it('should abort right away when the signal is already aborted', async () => {
+      const error = await createProgram()
+        .cliAsync('wait', { signal: AbortSignal.abort() })
+        .catch((e) => e);
+
+      expect(error).toBeInstanceOf(PadroneAbortError);
+    });
+
+    it('should return the result of actions that finish after an abort', async () => {
+      const controller = new AbortController();
+      const promise = createProgram().cliAsync('ignore', { signal: controller.signal });
+      controller.abort();
+
+      expect((await promise).result).toBe('done');
+    });
+
+    it('should report errors of actions that were not aborted as action errors', async () => {
+      const program = createPadrone('test').command('fail', (c) =>
+        c.action(async () => {
+          throw new Error('boom');
+        }),
+      );
+
+      await expect(program.cliAsync('fail', { signal: new AbortController().signal })).rejects.toBeInstanceOf(PadroneActionError);
+    });
+  });
+
+  describe('cleanup hooks', () => {
+    it('should run in reverse order before the run settles', async () => {
+      const log: string[] = [];
+      const controller = new AbortController();
+      const promise = createProgram(log).cliAsync('wait', { signal: controller.signal });
+      controller.abort();
+      await promise.catch(() => log.push('settled'));
+
+      expect(log).toEqual(['second', 'first', 'settled']);
+    });
+
+    it('should run right away when registered after the abort', async () => {
+      const log: string[] = [];
+      const program = createPadrone('test').command('late', (c) =>
+        c.action(async (_, ctx) => {
+          await Promise.resolve();
+          ctx.onAbort(() => log.push('late'));
+        }),
+      );
+
+      await program.cliAsync('late', { signal: AbortSignal.abort() });
+      expect(log).toEqual(['late']);
+    });
+
+    it('should not run when the run is not aborted', async () => {
+      const log: string[] = [];
+      const program = createPadrone('test').command('run', (c) =>
+        c.action(async (_, ctx) => {
+          ctx.onAbort(() => log.push('cleanup'));
+          return 'ok';
+        }),
+      );
+
+      expect((await program.cliAsync('run')).result).toBe('ok');
+      expect(log).toEqual([]);
+    });
+
+    it('should keep running when a hook throws', async () => {
+      const log: string[] = [];
+      const consoleError = spyOn(console, 'error').mockImplementation(() => {});
+      const program = createPadrone('test').command('run', (c) =>
+        c.action(async (_, ctx) => {
+          ctx.onAbort(() => log.push('first'));
+          ctx.onAbort(() => {
+            throw new Error('cleanup failed');
+          });
+          await waitForAbort(ctx.signal);
+        }),
+      );
+
+      try {
+        await program.cliAsync('run', { signal: AbortSignal.abort() }).catch(() => {});
+        expect(log).toEqual(['first']);
+        expect(consoleError).toHaveBeenCalledWith(new Error('cleanup failed'));
+      } finally {
+        consoleError.mockRestore();
+      }
+    });
+  });
+
+  describe('process signals', () => {
+    it('should abort the run on SIGINT', async () => {
+      const listeners = process.listenerCount('SIGINT');
+      const promise = createProgram().cliAsync('wait');
+
+      await Promise.resolve();
+      expect(process.listenerCount('SIGINT')).toBe(listeners + 1);
+      process.emit('SIGINT');
+
+      await expect(promise).rejects.toBeInstanceOf(PadroneAbortError);
+      await promise.catch(() => {});
+      expect(process.listenerCount('SIGINT')).toBe(listeners);
+    });
+
+    it('should abort the run on SIGTERM', async () => {
+      const promise = createProgram().cliAsync('wait');
+      await Promise.resolve();
+      process.emit('SIGTERM');
+
+      await expect(promise).rejects.toBeInstanceOf(PadroneAbortError);
+    });
+
+    it('should exit on a second signal', async () => {
+      const exit = spyOn(process, 'exit').mockImplementation((() => {}) as typeof process.exit);
+      try {
+        const promise = createProgram().cliAsync('ignore');
+        await Promise.resolve();
+        process.emit('SIGINT');
+        process.emit('SIGINT');
+
+        expect(exit).toHaveBeenCalledWith(130);
+        await promise;
+      } finally {
+        exit.mockRestore();
+      }
+    });
+
+    it('should not listen for signals of sync actions', () => {
+      const listeners = process.listenerCount('SIGINT');
+      createPadrone('test')
+        .command('sync', (c) => c.action(() => 'ok'))
+        .cli('sync');
+
+      expect(process.listenerCount('SIGINT')).toBe(listeners);
+    });
+
+    it('should not listen for signals when disabled', async () => {
+      const listeners = process.listenerCount('SIGINT');
+      const controller = new AbortController();
+      const promise = createProgram().cliAsync('wait', { signal: controller.signal, handleSignals: false });
+
+      await Promise.resolve();
+      expect(process.listenerCount('SIGINT')).toBe(listeners);
+      controller.abort();
+      await promise.catch(() => {});
+    });
+  });
+
+  describe('tool', () => {
+    it('should abort the run with the abort signal of the tool call', async () => {
+      const controller = new AbortController();
+      const listeners = process.listenerCount('SIGINT');
+      const promise = createProgram().tool().execute!(
+        { command: 'wait' },
+        { toolCallId: '1', messages: [], abortSignal: controller.signal },
+      );
+
+      await Promise.resolve();
+      expect(process.listenerCount('SIGINT')).toBe(listeners);
+      controller.abort();
+
+      await expect(promise).rejects.toBeInstanceOf(PadroneAbortError);
+    });
+  });
+});
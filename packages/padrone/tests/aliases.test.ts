@@ -1,8 +1,11 @@
 import { describe, expect, it } from 'bun:test';
 import { createPadrone } from 'padrone';
 import * as z from 'zod/v4';
+import { createConsoleMocker } from './console-mocker.ts';
 
 describe('Command Aliases', () => {
+  createConsoleMocker();
+
   const program = createPadrone('testprog')
     .command(['list', 'ls', 'show'], (c) =>
       c
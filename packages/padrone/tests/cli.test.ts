@@ -1,12 +1,24 @@
-import { describe, expect, it } from 'bun:test';
-import { createPadrone } from 'padrone';
+import { describe, expect, it, spyOn } from 'bun:test';
+import {
+  createPadrone,
+  PadroneActionError,
+  PadroneConfigError,
+  PadroneEnvError,
+  PadroneError,
+  PadroneFlagValueError,
+  PadroneMissingHandlerError,
+  PadroneStrictError,
+  PadroneUnknownCommandError,
+  PadroneUnknownFlagError,
+  PadroneValidationError,
+} from 'padrone';
 import * as z from 'zod/v4';
 import { createWeatherProgram } from './common.ts';
 import { createConsoleMocker } from './console-mocker.ts';
 
 describe('CLI', () => {
   const program = createWeatherProgram();
-  createConsoleMocker();
+  const { mockConsole } = createConsoleMocker();
 
   describe('programmatic execution', () => {
     it('should execute a simple command with args and options', () => {
@@ -132,7 +144,7 @@ describe('CLI', () => {
     });
 
     it('should return undefined for empty CLI input', () => {
-      expect(() => program.cli('')).toThrow('Command "" has no handler');
+      expect(() => program.cli('')).toThrow('Program has no handler');
     });
 
     it('should execute nested command via CLI', () => {
@@ -540,6 +552,946 @@ describe('CLI', () => {
     });
   });
 
+  describe('short flag clusters', () => {
+    const program = createPadrone('padrone-test').command('test', (c) =>
+      c
+        .options(
+          z.object({
+            all: z.boolean().optional(),
+            brief: z.boolean().optional(),
+            color: z.boolean().optional(),
+            output: z.string().optional(),
+            port: z.coerce.number().optional(),
+            file: z.string().optional(),
+          }),
+          {
+            positional: ['file'],
+            options: { all: { alias: 'a' }, brief: { alias: 'b' }, color: { alias: 'c' }, output: { alias: 'o' }, port: { alias: 'p' } },
+          },
+        )
+        .action((options) => options),
+    );
+
+    it('should expand a cluster of boolean aliases', () => {
+      const result = program.parse('test -abc');
+
+      expect(result.options).toEqual({ all: true, brief: true, color: true });
+    });
+
+    it('should assign an attached value to a short flag', () => {
+      const result = program.parse('test -ofile.txt -p5');
+
+      expect(result.options).toEqual({ output: 'file.txt', port: 5 });
+    });
+
+    it('should assign the rest of the cluster to the first non-boolean flag', () => {
+      const result = program.parse('test -abofile.txt');
+
+      expect(result.options).toEqual({ all: true, brief: true, output: 'file.txt' });
+    });
+
+    it('should let the last flag of a cluster consume the next token', () => {
+      const result = program.parse('test -abo out.txt');
+
+      expect(result.options).toEqual({ all: true, brief: true, output: 'out.txt' });
+    });
+
+    it('should give back the next token when the cluster already has an attached value', () => {
+      const result = program.parse(['test', '-ofile.txt', 'input.txt']);
+
+      expect(result.options).toEqual({ output: 'file.txt', file: 'input.txt' });
+    });
+
+    it('should keep = inside an attached value', () => {
+      const result = program.parse('test -okey=value');
+
+      expect(result.options).toEqual({ output: 'key=value' });
+    });
+
+    it('should throw a clear error for an unknown letter in a cluster', () => {
+      expect(() => program.parse('test -abx')).toThrow('Unknown flag "-x" in "-abx"');
+    });
+
+    it('should report an unknown letter in a cluster as a usage error', () => {
+      expect(() => program.parse('test -brif')).toThrow(PadroneUnknownFlagError);
+      expect(() => program.parse('test -brif')).toThrow(
+        expect.objectContaining({
+          exitCode: 2,
+          command: 'test',
+          flag: '-r',
+          message: 'Unknown flag "-r" in "-brif" for command "test"\nUnknown option "-brif". Did you mean "--brief"?',
+        }),
+      );
+    });
+
+    it('should not let a boolean flag consume the next token', () => {
+      expect(program.parse('test -ab file.txt').options).toEqual({ all: true, brief: true, file: 'file.txt' });
+      expect(program.parse('test --color file.txt').options).toEqual({ color: true, file: 'file.txt' });
+    });
+  });
+
+  describe('counted options', () => {
+    const program = createPadrone('padrone-test').command('test', (c) =>
+      c
+        .options(
+          z.object({
+            verbose: z.number().default(0),
+            quiet: z.boolean().optional(),
+            file: z.string().optional(),
+          }),
+          {
+            positional: ['file'],
+            options: { verbose: { alias: 'v', count: true }, quiet: { alias: 'q' } },
+          },
+        )
+        .action((options) => options),
+    );
+
+    it('should count repeated short flags', () => {
+      expect(program.parse('test -v').options?.verbose).toBe(1);
+      expect(program.parse('test -vv').options?.verbose).toBe(2);
+      expect(program.parse('test -vvv').options?.verbose).toBe(3);
+    });
+
+    it('should count repeated long flags', () => {
+      const result = program.parse('test --verbose --verbose -v');
+
+      expect(result.options?.verbose).toBe(3);
+    });
+
+    it('should combine counters with other flags in a cluster', () => {
+      const result = program.parse('test -vqv');
+
+      expect(result.options).toEqual({ verbose: 2, quiet: true });
+    });
+
+    it('should not consume the next token as a value', () => {
+      const result = program.parse('test -vv input.txt');
+
+      expect(result.options).toEqual({ verbose: 2, file: 'input.txt' });
+    });
+
+    it('should set the count from an explicit value', () => {
+      expect(program.parse('test --verbose=4').options?.verbose).toBe(4);
+      expect(program.parse('test --no-verbose').options?.verbose).toBe(0);
+    });
+
+    it('should use the default when the flag is not given', () => {
+      expect(program.parse('test').options?.verbose).toBe(0);
+    });
+
+    it('should support count in zod meta', () => {
+      const program = createPadrone('padrone-test').command('test', (c) =>
+        c.options(z.object({ verbose: z.number().optional().meta({ alias: 'v', count: true }) })).action((options) => options),
+      );
+
+      expect(program.parse('test -vvv').options?.verbose).toBe(3);
+    });
+
+    it('should display counted options in help text', () => {
+      const helpText = program.help('test', { format: 'text' });
+
+      expect(helpText).toContain('--verbose, -v');
+      expect(helpText).toContain('(counted)');
+      expect(helpText).not.toContain('<number>');
+    });
+  });
+
+  describe('strict mode', () => {
+    const createProgram = () =>
+      createPadrone('padrone-test')
+        .configure({ strict: true })
+        .command('deploy', (c) =>
+          c
+            .options(z.object({ target: z.string(), dryRun: z.boolean().optional() }), {
+              positional: ['target'],
+              options: { dryRun: { alias: 'n' } },
+            })
+            .action((options) => options),
+        )
+        .command('exec', (c) =>
+          c
+            .configure({ strict: false })
+            .options(z.object({ tool: z.string() }), { positional: ['tool'] })
+            .action((options) => options),
+        );
+
+    it('should reject unknown options', () => {
+      const program = createProgram();
+
+      expect(() => program.parse('deploy prod --dryrun')).toThrow('Unknown option for command "deploy": --dryrun');
+    });
+
+    it('should reject surplus positional arguments', () => {
+      const program = createProgram();
+
+      expect(() => program.cli('deploy prod staging')).toThrow('Unexpected argument for command "deploy": staging');
+    });
+
+    it('should expose unknown options and unused arguments on the error', () => {
+      const program = createProgram();
+
+      try {
+        program.parse('deploy prod extra --dryrun -x');
+        throw new Error('Expected parse to throw');
+      } catch (error) {
+        expect(error).toBeInstanceOf(PadroneStrictError);
+        const strictError = error as PadroneStrictError;
+        expect(strictError.command).toBe('deploy');
+        expect(strictError.unknownOptions).toEqual(['--dryrun', '-x']);
+        expect(strictError.unusedArgs).toEqual(['extra']);
+      }
+    });
+
+    it('should accept known options and aliases', () => {
+      const program = createProgram();
+
+      const result = program.cli('deploy prod -n');
+
+      expect(result.result).toEqual({ target: 'prod', dryRun: true });
+    });
+
+    it('should allow commands to opt out of strict mode', () => {
+      const program = createProgram();
+
+      const result = program.cli('exec npm test --watch');
+
+      expect(result.result).toEqual({ tool: 'npm' });
+    });
+
+    it('should reject unknown subcommands of a program without an action', () => {
+      const program = createProgram();
+
+      expect(() => program.parse('deplyo prod')).toThrow('Unknown command "deplyo". Did you mean "deploy"?');
+      expect(() => program.parse('nope')).toThrow(new PadroneUnknownCommandError('nope'));
+    });
+
+    it('should not be strict by default', () => {
+      const program = createPadrone('padrone-test').command('test', (c) =>
+        c.options(z.object({ name: z.string() }), { positional: ['name'] }).action((options) => options),
+      );
+
+      const result = program.parse('test a b --unknown');
+
+      expect(result.options).toEqual({ name: 'a' });
+    });
+
+    it('should consume all arguments with a variadic positional in the middle', () => {
+      const program = createPadrone('padrone-test')
+        .configure({ strict: true })
+        .command('cp', (c) =>
+          c
+            .options(z.object({ source: z.string(), files: z.array(z.string()), dest: z.string() }), {
+              positional: ['source', '...files', 'dest'],
+            })
+            .action((options) => options),
+        );
+
+      const result = program.parse('cp a b c d');
+
+      expect(result.options).toEqual({ source: 'a', files: ['b', 'c'], dest: 'd' });
+    });
+  });
+
+  describe('suggestions', () => {
+    const createProgram = (strict?: boolean) =>
+      createPadrone('padrone-test')
+        .configure({ strict })
+        .command(['deploy', 'ship'], (c) =>
+          c
+            .options(z.object({ target: z.string().optional(), dryRun: z.boolean().optional(), verbose: z.boolean().optional() }), {
+              positional: ['target'],
+              options: { verbose: { alias: 'v' } },
+            })
+            .action((options) => options),
+        )
+        .command('remote', (c) =>
+          c.command('list', (c) => c.action(() => 'list')).command(['remove', 'rm'], (c) => c.action(() => 'remove')),
+        );
+
+    it('should suggest a command for a mistyped subcommand', () => {
+      try {
+        createProgram().parse('deplyo prod');
+        throw new Error('Expected parse to throw');
+      } catch (error) {
+        expect(error).toBeInstanceOf(PadroneUnknownCommandError);
+        expect((error as PadroneUnknownCommandError).command).toBe('deplyo');
+        expect((error as PadroneUnknownCommandError).suggestions).toEqual([{ type: 'command', input: 'deplyo', suggestions: ['deploy'] }]);
+      }
+    });
+
+    it('should suggest nested commands and aliases', () => {
+      try {
+        createProgram().parse('remote remvoe');
+        throw new Error('Expected parse to throw');
+      } catch (error) {
+        expect((error as PadroneUnknownCommandError).command).toBe('remote remvoe');
+        expect((error as PadroneUnknownCommandError).suggestions).toEqual([{ type: 'command', input: 'remvoe', suggestions: ['remove'] }]);
+      }
+    });
+
+    it('should suggest options for unknown options', () => {
+      const result = createProgram().parse('deploy prod --dryrun --verbos');
+
+      expect(result.suggestions).toEqual([
+        { type: 'option', input: '--dryrun', suggestions: ['--dryRun'] },
+        { type: 'option', input: '--verbos', suggestions: ['--verbose'] },
+      ]);
+    });
+
+    it('should not suggest anything when nothing is close', () => {
+      const result = createProgram().parse('deploy prod --something');
+
+      expect(result.suggestions).toBeUndefined();
+    });
+
+    it('should include suggestions in the cli error for a mistyped command', () => {
+      expect(() => createProgram().cli('remote lst')).toThrow('Unknown command "lst". Did you mean "list"?');
+    });
+
+    it('should include suggestions in strict mode errors', () => {
+      const program = createProgram(true);
+
+      try {
+        program.cli('deploy prod --dry-rn');
+        throw new Error('Expected cli to throw');
+      } catch (error) {
+        expect(error).toBeInstanceOf(PadroneStrictError);
+        expect((error as PadroneStrictError).message).toContain('Unknown option "--dry-rn". Did you mean "--dryRun"?');
+        expect((error as PadroneStrictError).suggestions).toEqual([{ type: 'option', input: '--dry-rn', suggestions: ['--dryRun'] }]);
+      }
+    });
+
+    it('should include suggestions in the cli result', () => {
+      const result = createProgram().cli('deploy prod --dryrun');
+
+      expect(result.suggestions).toEqual([{ type: 'option', input: '--dryrun', suggestions: ['--dryRun'] }]);
+    });
+  });
+
+  describe('errors', () => {
+    const catchError = (fn: () => unknown) => {
+      try {
+        fn();
+      } catch (error) {
+        return error;
+      }
+      throw new Error('Expected function to throw');
+    };
+
+    const createProgram = () =>
+      createPadrone('padrone-test')
+        .command('serve', (c) =>
+          c
+            .options(z.object({ port: z.number().optional(), mode: z.enum(['dev', 'prod']).optional() }))
+            .env(z.object({ PORT: z.coerce.number().optional() }).transform((env) => ({ port: env.PORT })))
+            .configFile('config.json', z.object({ port: z.number().optional() }))
+            .action((options) => options),
+        )
+        .command('fail', (c) =>
+          c.action(() => {
+            throw new TypeError('Something broke');
+          }),
+        )
+        .command('remote', (c) => c.command('list', (c) => c.action(() => 'list')));
+
+    it('should throw PadroneUnknownCommandError for unknown commands', () => {
+      const error = catchError(() => createProgram().run('nonexistent' as any, {})) as PadroneUnknownCommandError;
+
+      expect(error).toBeInstanceOf(PadroneUnknownCommandError);
+      expect(error).toBeInstanceOf(PadroneError);
+      expect(error.command).toBe('nonexistent');
+      expect(error.exitCode).toBe(2);
+      expect(error.message).toBe('Command "nonexistent" not found');
+    });
+
+    it('should throw PadroneMissingHandlerError for commands without a handler', () => {
+      const error = catchError(() => createProgram().cli('remote')) as PadroneMissingHandlerError;
+
+      expect(error).toBeInstanceOf(PadroneMissingHandlerError);
+      expect(error.command).toBe('remote');
+      expect(error.exitCode).toBe(2);
+    });
+
+    it('should throw PadroneValidationError before running the action', () => {
+      const error = catchError(() => createProgram().cli('serve --mode staging', { env: {} })) as PadroneValidationError;
+
+      expect(error).toBeInstanceOf(PadroneValidationError);
+      expect(error.command).toBe('serve');
+      expect(error.exitCode).toBe(2);
+      expect(error.issues.map((i) => i.path)).toEqual([['mode']]);
+      expect(error.message).toStartWith('Invalid options for command "serve":\n  --mode: ');
+    });
+
+    it('should not throw validation errors from parse', () => {
+      const result = createProgram().parse('serve --mode staging', { env: {} });
+
+      expect(result.optionsResult?.issues).toHaveLength(1);
+    });
+
+    it('should throw PadroneConfigError for invalid config data', () => {
+      const error = catchError(() => createProgram().cli('serve', { env: {}, configData: { port: 'abc' } })) as PadroneConfigError;
+
+      expect(error).toBeInstanceOf(PadroneConfigError);
+      expect(error.exitCode).toBe(78);
+      expect(error.message).toStartWith('Invalid config file:\n  - port: ');
+    });
+
+    it('should throw PadroneEnvError for invalid environment variables', () => {
+      const error = catchError(() => createProgram().cli('serve', { env: { PORT: 'abc' } })) as PadroneEnvError;
+
+      expect(error).toBeInstanceOf(PadroneEnvError);
+      expect(error.exitCode).toBe(78);
+      expect(error.message).toStartWith('Invalid environment variables:\n  - PORT: ');
+    });
+
+    it('should throw PadroneEnvError from parse() like cli()', () => {
+      expect(() => createProgram().parse('serve', { env: { PORT: 'abc' } })).toThrow(PadroneEnvError);
+      expect(createProgram().parse('serve', { env: { PORT: 'abc' }, envData: { port: 3000 } }).options).toEqual({ port: 3000 });
+    });
+
+    it('should wrap errors thrown by actions in PadroneActionError', () => {
+      const error = catchError(() => createProgram().cli('fail')) as PadroneActionError;
+
+      expect(error).toBeInstanceOf(PadroneActionError);
+      expect(error.command).toBe('fail');
+      expect(error.exitCode).toBe(1);
+      expect(error.message).toBe('Something broke');
+      expect(error.cause).toBeInstanceOf(TypeError);
+    });
+
+    it('should not wrap errors thrown by actions in run', () => {
+      expect(() => createProgram().run('fail', undefined)).toThrow(TypeError);
+    });
+
+    it('should print the error and exit with its exit code when exitOnError is set', () => {
+      const exit = spyOn(process, 'exit').mockImplementation((() => {}) as typeof process.exit);
+      try {
+        expect(() => createProgram().cli('serve --mode staging', { env: {}, exitOnError: true })).toThrow(PadroneValidationError);
+        expect(exit).toHaveBeenCalledWith(2);
+        expect(mockConsole.error.mock.calls[0]?.[0]).toStartWith('Invalid options for command "serve":');
+        expect(mockConsole.error).toHaveBeenCalledWith('Run "padrone-test serve --help" for usage.');
+
+        expect(() => createProgram().cli('fail', { exitOnError: true })).toThrow(PadroneActionError);
+        expect(exit).toHaveBeenLastCalledWith(1);
+        expect(mockConsole.error).toHaveBeenLastCalledWith('Something broke');
+      } finally {
+        exit.mockRestore();
+      }
+    });
+
+    it('should report unknown subcommands with the help of their parent', () => {
+      const exit = spyOn(process, 'exit').mockImplementation((() => {}) as typeof process.exit);
+      try {
+        expect(() => createProgram().cli('remote lsit', { exitOnError: true })).toThrow(PadroneUnknownCommandError);
+        expect(exit).toHaveBeenCalledWith(2);
+        expect(mockConsole.error).toHaveBeenCalledWith('Unknown command "lsit". Did you mean "list"?');
+        expect(mockConsole.error).toHaveBeenCalledWith('Run "padrone-test remote --help" for usage.');
+      } finally {
+        exit.mockRestore();
+      }
+    });
+  });
+
+  describe('validation errors', () => {
+    const createProgram = () =>
+      createPadrone('padrone-test').command('copy', (c) =>
+        c
+          .options(
+            z.object({
+              source: z.string(),
+              port: z.number().optional(),
+              mode: z.enum(['fast', 'safe']).optional(),
+            }),
+            { positional: ['source'], options: { port: { alias: 'p' } } },
+          )
+          .action((options) => options),
+      );
+
+    const getDetails = (fn: () => unknown) => {
+      try {
+        fn();
+      } catch (error) {
+        return (error as PadroneValidationError).details;
+      }
+      throw new Error('Expected function to throw');
+    };
+
+    it('should map option issues to their CLI spelling with aliases', () => {
+      const details = getDetails(() => createProgram().cli('copy a.txt -p abc'));
+
+      expect(details).toHaveLength(1);
+      expect(details[0]).toMatchObject({ name: '--port', aliases: ['-p'], received: 'abc', expected: 'number' });
+    });
+
+    it('should map positional issues to their argument names', () => {
+      const details = getDetails(() => createProgram().cli('copy'));
+
+      expect(details).toHaveLength(1);
+      expect(details[0]).toMatchObject({ name: '<source>', aliases: [], expected: 'string' });
+      expect(details[0]?.received).toBeUndefined();
+    });
+
+    it('should show enum values as the expected type', () => {
+      const details = getDetails(() => createProgram().cli('copy a.txt --mode slow'));
+
+      expect(details[0]).toMatchObject({ name: '--mode', received: 'slow', expected: '"fast" | "safe"' });
+    });
+
+    it('should format a readable report without colors in the error message', () => {
+      expect(() => createProgram().cli('copy a.txt --port abc --mode slow')).toThrow(
+        [
+          'Invalid options for command "copy":',
+          '  --port, -p: Invalid input: expected number, received string',
+          '    received: "abc"',
+          '    expected: number',
+          '  --mode: Invalid option: expected one of "fast"|"safe"',
+          '    received: "slow"',
+          '    expected: "fast" | "safe"',
+        ].join('\n'),
+      );
+    });
+
+    it('should not run the action when validation fails', () => {
+      let called = false;
+      const program = createPadrone('padrone-test').command('run', (c) =>
+        c.options(z.object({ port: z.number() })).action(() => {
+          called = true;
+        }),
+      );
+
+      expect(() => program.cli('run --port abc')).toThrow(PadroneValidationError);
+      expect(called).toBe(false);
+    });
+  });
+
+  describe('async validation', () => {
+    const existingFiles = new Set(['a.txt', 'b.txt']);
+    const fileExists = async (file: string) => existingFiles.has(file);
+
+    const createProgram = () =>
+      createPadrone('padrone-test')
+        .command('open', (c) =>
+          c
+            .options(z.object({ file: z.string().refine(fileExists, 'File does not exist') }), { positional: ['file'] })
+            .action((options) => options.file),
+        )
+        .command('serve', (c) =>
+          c
+            .options(z.object({ port: z.number().optional() }))
+            .env(
+              z
+                .object({ PORT: z.coerce.number().optional() })
+                .refine(async (env) => env.PORT !== 0, 'Port must not be 0')
+                .transform((env) => ({ port: env.PORT })),
+            )
+            .configFile(
+              'config.json',
+              z.object({
+                port: z
+                  .number()
+                  .refine(async (port) => port > 0, 'Port must be positive')
+                  .optional(),
+              }),
+            )
+            .action((options) => options.port),
+        );
+
+    it('should await async option validation in parseAsync', async () => {
+      const result = await createProgram().parseAsync<'open'>('open a.txt');
+
+      expect(result.command.path).toBe('open');
+      expect(result.options).toEqual({ file: 'a.txt' });
+    });
+
+    it('should return async option issues from parseAsync', async () => {
+      const result = await createProgram().parseAsync<'open'>('open missing.txt');
+
+      expect(result.options).toBeUndefined();
+      expect(result.optionsResult?.issues?.[0]?.message).toBe('File does not exist');
+    });
+
+    it('should await async option validation in cliAsync', async () => {
+      const result = await createProgram().cliAsync<'open'>('open b.txt');
+
+      expect(result.result).toBe('b.txt');
+    });
+
+    it('should reject with a validation error in cliAsync', async () => {
+      await expect(createProgram().cliAsync('open missing.txt')).rejects.toBeInstanceOf(PadroneValidationError);
+    });
+
+    it('should await async env validation in cliAsync', async () => {
+      const result = await createProgram().cliAsync<'serve'>('serve', { env: { PORT: '8080' } });
+      expect(result.result).toBe(8080);
+
+      await expect(createProgram().cliAsync('serve', { env: { PORT: '0' } })).rejects.toBeInstanceOf(PadroneEnvError);
+    });
+
+    it('should await async config validation in cliAsync', async () => {
+      const result = await createProgram().cliAsync<'serve'>('serve', { env: {}, configData: { port: 3000 } });
+      expect(result.result).toBe(3000);
+
+      await expect(createProgram().cliAsync('serve', { env: {}, configData: { port: -1 } })).rejects.toBeInstanceOf(PadroneConfigError);
+    });
+
+    it('should work with sync schemas in the async methods', async () => {
+      const program = createWeatherProgram();
+
+      expect((await program.parseAsync<'current'>('current London')).options?.city).toBe('London');
+      expect((await program.cliAsync<'current'>('current London')).result.city).toBe('London');
+    });
+
+    it('should throw in the sync methods when validation is async', () => {
+      expect(() => createProgram().parse('open a.txt')).toThrow('Use parseAsync() for schemas with async validation');
+      expect(() => createProgram().cli('open a.txt')).toThrow('Use cliAsync() for schemas with async validation');
+    });
+
+    it('should not run the action later when the sync methods throw for async validation', async () => {
+      let called = false;
+      const program = createPadrone('padrone-test').command('rm', (c) =>
+        c.options(z.object({ file: z.string().refine(fileExists) }), { positional: ['file'] }).action(() => {
+          called = true;
+        }),
+      );
+
+      expect(() => program.cli('rm a.txt')).toThrow('Use cliAsync() for schemas with async validation');
+      expect(() => createProgram().cli('serve', { env: { PORT: '8080' } })).toThrow('Use cliAsync()');
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      expect(called).toBe(false);
+    });
+  });
+
+  describe('async actions', () => {
+    const createProgram = () =>
+      createPadrone('padrone-test')
+        .command('fetch', (c) =>
+          c.options(z.object({ id: z.string() }), { positional: ['id'] }).action(async (options) => ({ id: options.id, status: 200 })),
+        )
+        .command('fail', (c) =>
+          c.action(async () => {
+            throw new TypeError('Request failed');
+          }),
+        );
+
+    it('should await async actions in cliAsync', async () => {
+      const result = await createProgram().cliAsync<'fetch'>('fetch 42');
+
+      expect(result.result).toEqual({ id: '42', status: 200 });
+    });
+
+    it('should return the promise from async actions in cli', async () => {
+      const result = createProgram().cli<'fetch'>('fetch 42');
+
+      expect(result.result).toBeInstanceOf(Promise);
+      expect(await result.result).toEqual({ id: '42', status: 200 });
+    });
+
+    it('should wrap rejections of async actions in PadroneActionError', async () => {
+      const error = await createProgram()
+        .cliAsync('fail')
+        .catch((e) => e);
+
+      expect(error).toBeInstanceOf(PadroneActionError);
+      expect(error.message).toBe('Request failed');
+      expect(error.cause).toBeInstanceOf(TypeError);
+
+      await expect(createProgram().cli('fail').result).rejects.toBeInstanceOf(PadroneActionError);
+    });
+
+    it('should leave rejections of async actions to the caller of cli', async () => {
+      const exitCode = process.exitCode;
+
+      await createProgram()
+        .cli('fail')
+        .result.catch(() => {});
+
+      expect(mockConsole.error).not.toHaveBeenCalled();
+      expect(process.exitCode).toBe(exitCode);
+    });
+
+    it('should report rejections of async actions and exit when exitOnError is set', async () => {
+      const exit = spyOn(process, 'exit').mockImplementation((() => {}) as typeof process.exit);
+      try {
+        await expect(createProgram().cli('fail', { exitOnError: true }).result).rejects.toBeInstanceOf(PadroneActionError);
+        expect(mockConsole.error).toHaveBeenCalledWith('Request failed');
+        expect(exit).toHaveBeenCalledWith(1);
+      } finally {
+        exit.mockRestore();
+      }
+    });
+  });
+
+  describe('global options', () => {
+    const createProgram = () =>
+      createPadrone('padrone-test')
+        .options(
+          z.object({
+            verbose: z.boolean().default(false),
+            profile: z.enum(['dev', 'prod']).optional(),
+            level: z.number().default(0),
+            local: z.string().optional(),
+          }),
+          {
+            options: { verbose: { alias: 'V', global: true }, profile: { global: true }, level: { alias: 'l', count: true, global: true } },
+          },
+        )
+        .command('deploy', (c) =>
+          c
+            .options(z.object({ target: z.string(), verbose: z.string().optional() }), { positional: ['target'] })
+            .action((options) => options),
+        )
+        .command('db', (c) => c.command('migrate', (c) => c.action((options) => options)));
+
+    it('should accept global options anywhere on the command line', () => {
+      expect(createProgram().cli('--profile prod db migrate').result as unknown).toEqual({ verbose: false, profile: 'prod', level: 0 });
+      expect(createProgram().cli('db --profile prod migrate').result as unknown).toEqual({ verbose: false, profile: 'prod', level: 0 });
+      expect(createProgram().cli('db migrate --profile prod -V').result as unknown).toEqual({ verbose: true, profile: 'prod', level: 0 });
+    });
+
+    it('should not let global flags before a subcommand take it as their value', () => {
+      expect(createProgram().cli('--verbose db migrate').result as unknown).toEqual({ verbose: true, level: 0 });
+      expect(createProgram().cli('-V db migrate').result as unknown).toEqual({ verbose: true, level: 0 });
+      expect(createProgram().cli('db -l migrate').result as unknown).toEqual({ verbose: false, level: 1 });
+      expect(createProgram().cli('-V --yes deploy prod').result as unknown).toEqual({ target: 'prod', verbose: undefined, level: 0 });
+    });
+
+    it('should accept global options declared after the commands were added', () => {
+      const program = createPadrone('padrone-test')
+        .command('deploy', (c) => c.action((_, ctx) => ctx.parentOptions))
+        .options(z.object({ verbose: z.boolean().optional() }), { options: { verbose: { global: true } } });
+
+      expect(program.cli('deploy --verbose').result as unknown).toEqual({ verbose: true });
+    });
+
+    it('should apply defaults of global options to nested commands', () => {
+      expect(createProgram().cli('db migrate').result as unknown).toEqual({ verbose: false, level: 0 });
+    });
+
+    it('should support aliases and counters for global options', () => {
+      expect(createProgram().cli('db migrate -lll').result as unknown).toEqual({ verbose: false, level: 3 });
+    });
+
+    it('should validate global options with the schema that declares them', () => {
+      expect(() => createProgram().cli('db migrate --profile staging')).toThrow(PadroneValidationError);
+      expect(createProgram().parse('db migrate --profile staging').optionsResult?.issues?.[0]?.path).toEqual(['profile']);
+    });
+
+    it('should describe invalid global options as declared by the parent command', () => {
+      try {
+        createProgram().cli('db migrate --profile staging');
+        expect.unreachable();
+      } catch (error) {
+        expect(error).toBeInstanceOf(PadroneValidationError);
+        expect((error as PadroneValidationError).details[0]).toMatchObject({
+          name: '--profile',
+          received: 'staging',
+          expected: '"dev" | "prod"',
+        });
+      }
+
+      try {
+        createProgram().cli('db migrate --level=abc');
+        expect.unreachable();
+      } catch (error) {
+        expect((error as PadroneValidationError).details[0]).toMatchObject({ name: '--level', aliases: ['-l'], expected: 'number' });
+      }
+    });
+
+    it('should not make non-global options of the parent available', () => {
+      const result = createProgram().parse('deploy prod --local x');
+
+      expect(result.options as unknown).toEqual({ target: 'prod', verbose: undefined, level: 0 });
+    });
+
+    it('should let command options take precedence over global options with the same name', () => {
+      const result = createProgram().cli('deploy prod --verbose loud --profile dev');
+
+      expect(result.result as unknown).toEqual({ target: 'prod', verbose: 'loud', profile: 'dev', level: 0 });
+    });
+
+    it('should treat global options as known in strict mode', () => {
+      const program = createPadrone('padrone-test')
+        .configure({ strict: true })
+        .options(z.object({ verbose: z.boolean().optional() }), { options: { verbose: { global: true } } })
+        .command('run', (c) => c.action((options) => options));
+
+      expect(program.cli('run --verbose').result as unknown).toEqual({ verbose: true });
+      expect(() => program.cli('run --verbos')).toThrow(PadroneStrictError);
+    });
+  });
+
+  describe('option relations', () => {
+    const createProgram = () =>
+      createPadrone('padrone-test').command('export', (c) =>
+        c
+          .options(
+            z.object({
+              json: z.boolean().optional(),
+              format: z.string().optional(),
+              quiet: z.boolean().optional(),
+              publish: z.boolean().optional(),
+              token: z.string().optional().meta({ alias: 't' }),
+            }),
+            { options: { json: { conflicts: 'format', implies: { quiet: true } }, publish: { requires: ['token'] } } },
+          )
+          .action((options) => options),
+      );
+
+    it('should reject options that conflict with each other', () => {
+      const error = createProgram()
+        .parse('export --json --format csv')
+        .optionsResult?.issues?.map((issue) => issue.message);
+      expect(error).toEqual(['Cannot be used with --format']);
+      expect(() => createProgram().cli('export --format csv --json')).toThrow('--format: Cannot be used with --json');
+    });
+
+    it('should reject options whose required options are missing', () => {
+      expect(() => createProgram().cli('export --publish')).toThrow('--publish: Requires --token');
+      expect(createProgram().cli('export --publish -t abc').result).toEqual({ publish: true, token: 'abc' });
+    });
+
+    it('should not count booleans turned off as set', () => {
+      expect(createProgram().cli('export --no-json --format csv').result).toEqual({ json: false, format: 'csv' });
+    });
+
+    it('should set implied options unless they are set', () => {
+      expect(createProgram().cli('export --json').result).toEqual({ json: true, quiet: true });
+      expect(createProgram().cli('export --json --no-quiet').result).toEqual({ json: true, quiet: false });
+    });
+
+    it('should read relations from the schema meta', () => {
+      const program = createPadrone('padrone-test').command('run', (c) =>
+        c
+          .options(
+            z.object({
+              watch: z
+                .boolean()
+                .optional()
+                .meta({ conflicts: ['once'] }),
+              once: z.boolean().optional(),
+            }),
+          )
+          .action((options) => options),
+      );
+
+      expect(() => program.cli('run --once --watch')).toThrow(PadroneValidationError);
+    });
+  });
+
+  describe('option groups', () => {
+    const createProgram = () =>
+      createPadrone('padrone-test').command('export', (c) =>
+        c
+          .options(
+            z.object({
+              json: z.boolean().optional(),
+              yaml: z.boolean().optional(),
+              file: z.string().optional(),
+              url: z.string().optional(),
+            }),
+            {
+              groups: {
+                Format: { options: ['json', 'yaml'], exclusive: 'at-most-one' },
+                Target: { options: ['file', 'url'], exclusive: 'exactly-one' },
+              },
+            },
+          )
+          .action((options) => options),
+      );
+
+    it('should accept one option of each exclusive group', () => {
+      expect(createProgram().cli('export --json --file out.json').result).toEqual({ json: true, file: 'out.json' });
+      expect(createProgram().cli('export --url https://example.com').result).toEqual({ url: 'https://example.com' });
+    });
+
+    it('should reject more than one option of an exclusive group', () => {
+      expect(() => createProgram().cli('export --json --yaml --file out')).toThrow('--yaml: Only one of --json, --yaml can be used');
+      expect(() => createProgram().cli('export --no-json --yaml --file out')).not.toThrow();
+    });
+
+    it('should require one option of an exactly-one group', () => {
+      const issues = createProgram().parse('export --json').optionsResult?.issues;
+      expect(issues?.map((issue) => [issue.path, issue.message])).toEqual([[[], 'One of --file, --url is required']]);
+    });
+  });
+
+  describe('default and fallback commands', () => {
+    const createProgram = () =>
+      createPadrone('padrone-test')
+        .fallback((args, ctx) => ({ args, path: ctx.command.path }))
+        .command('remote', (c) =>
+          c
+            .configure({ defaultCommand: 'ls' })
+            .command(['list', 'ls'], (c) =>
+              c.options(z.object({ verbose: z.boolean().optional() })).action((options) => `list ${!!options.verbose}`),
+            )
+            .command('add', (c) => c.options(z.object({ name: z.string() }), { positional: ['name'] }).action((options) => options.name)),
+        );
+
+    it('should run the default subcommand with the options of the parent command', () => {
+      expect(createProgram().cli('remote').result).toBe('list false');
+      expect(createProgram().cli('remote --verbose').result).toBe('list true');
+      expect(createProgram().cli('remote add origin').result).toBe('origin');
+    });
+
+    it('should reject a default subcommand that does not exist', () => {
+      const program = createPadrone('padrone-test').command('remote', (c) =>
+        c.configure({ defaultCommand: 'list' }).command('add', (c) => c.action()),
+      );
+
+      expect(() => program.cli('remote')).toThrow(new PadroneUnknownCommandError('remote list'));
+    });
+
+    it('should pass unknown commands to the fallback with the input from their name onward', () => {
+      expect(createProgram().cli('deploy web --force -- --dry-run').result as unknown).toEqual({
+        args: ['deploy', 'web', '--force', '--', '--dry-run'],
+        path: 'deploy',
+      });
+      expect(createProgram().cli(['padrone-test', '--verbose=2', 'remote2', "it's"]).result as unknown).toEqual({
+        args: ['remote2', "it's"],
+        path: 'remote2',
+      });
+    });
+
+    it('should not print the results of the fallback', () => {
+      createProgram().cli('deploy web');
+
+      expect(mockConsole.log).not.toHaveBeenCalled();
+    });
+
+    it('should pass terms that are not subcommands on to the default subcommand', () => {
+      const program = createPadrone('padrone-test').command('remote', (c) =>
+        c
+          .configure({ defaultCommand: 'list' })
+          .command('list', (c) =>
+            c.options(z.object({ name: z.string().optional() }), { positional: ['name'] }).action((options) => `list ${options.name}`),
+          )
+          .command('add', (c) => c.action(() => 'add')),
+      );
+
+      expect(program.cli('remote origin').result).toBe('list origin');
+      expect(program.cli('remote ./path').result).toBe('list ./path');
+      expect(program.cli('remote add').result).toBe('add');
+    });
+
+    it('should suggest subcommands for terms that the default subcommand does not accept', () => {
+      try {
+        createProgram().configure({ strict: true }).cli('remote lsit');
+        expect.unreachable();
+      } catch (error) {
+        expect(error).toBeInstanceOf(PadroneStrictError);
+        expect((error as PadroneStrictError).suggestions[0]).toMatchObject({ type: 'command', input: 'lsit' });
+      }
+    });
+
+    it('should report unknown subcommands of commands without a fallback or a default subcommand', () => {
+      const program = createPadrone('padrone-test').command('remote', (c) => c.command('add', (c) => c.action()));
+
+      expect(() => program.cli('remote rename')).toThrow(new PadroneUnknownCommandError('remote rename'));
+    });
+  });
+
   describe('stringify', () => {
     it('should stringify a simple command with args', () => {
       const result = program.stringify('current', { city: 'New York', unit: 'fahrenheit' });
@@ -929,6 +1881,152 @@ describe('CLI', () => {
     });
   });
 
+  describe('argv array input', () => {
+    it('should keep argv items with spaces as single arguments', () => {
+      const result = program.parse<'compare'>(['compare', 'New York', 'Los Angeles']);
+
+      expect(result.command.path).toBe('compare');
+      expect(result.options?.cities).toEqual(['New York', 'Los Angeles']);
+    });
+
+    it('should not strip or interpret quotes inside argv items', () => {
+      const program = createPadrone('padrone-test').command('test', (c) =>
+        c.options(z.object({ file: z.string(), label: z.string().optional() }), { positional: ['file'] }).action((options) => options),
+      );
+
+      const result = program.parse(['test', 'my "quoted" file.txt', '--label="as-is"']);
+
+      expect(result.options?.file).toBe('my "quoted" file.txt');
+      expect(result.options?.label).toBe('"as-is"');
+    });
+
+    it('should accept option values with spaces from argv', () => {
+      const result = program.parse<'alerts'>(['alerts', '--region', 'West Coast', '--severity=high']);
+
+      expect(result.options).toEqual({ region: 'West Coast', severity: 'high' });
+    });
+
+    it('should keep empty argv items as values', () => {
+      const program = createPadrone('padrone-test').command('test', (c) =>
+        c.options(z.object({ name: z.string() }), { positional: ['name'] }).action((options) => options),
+      );
+
+      const result = program.parse(['test', '']);
+
+      expect(result.options?.name).toBe('');
+    });
+
+    it('should execute command via cli with an argv array', () => {
+      const result = program.cli<'current'>(['current', 'San Francisco', '--unit', 'celsius']);
+
+      expect(result.command.path).toBe('current');
+      expect(result.result.city).toBe('San Francisco');
+      expect(result.result.temperature).toBe(22);
+    });
+
+    it('should handle builtin flags with an argv array', () => {
+      const program = createPadrone('test-cli').configure({ version: '1.2.3' });
+
+      const result = program.cli(['--version']);
+
+      expect(result.result as unknown).toBe('1.2.3');
+    });
+
+    it('should accept an argv array in tool execute', async () => {
+      const tool = program.tool();
+
+      const result = await tool.execute!({ command: ['current', 'New York'] }, { toolCallId: '1', messages: [] });
+
+      expect((result as any).city).toBe('New York');
+    });
+  });
+
+  describe('end-of-options separator', () => {
+    it('should treat everything after -- as positional arguments', () => {
+      const program = createPadrone('padrone-test').command('test', (c) =>
+        c
+          .options(z.object({ files: z.array(z.string()), verbose: z.boolean().optional() }), { positional: ['...files'] })
+          .action((options) => options),
+      );
+
+      const result = program.parse('test --verbose -- --not-an-option -x file.txt');
+
+      expect(result.options?.verbose).toBe(true);
+      expect(result.options?.files).toEqual(['--not-an-option', '-x', 'file.txt']);
+    });
+
+    it('should not match commands after --', () => {
+      const program = createPadrone('padrone-test')
+        .command('exec', (c) =>
+          c.options(z.object({ args: z.array(z.string()) }), { positional: ['...args'] }).action((options) => options),
+        )
+        .command('other', (c) => c.action(() => 'other'));
+
+      const result = program.parse('exec -- other');
+
+      expect(result.command.path).toBe('exec');
+      expect(result.options?.args).toEqual(['other']);
+    });
+
+    it('should collect arguments after -- into the passthrough option', () => {
+      const program = createPadrone('padrone-test').command('exec', (c) =>
+        c
+          .options(z.object({ tool: z.string(), rest: z.array(z.string()).optional(), dry: z.boolean().optional() }), {
+            positional: ['tool'],
+            passthrough: 'rest',
+          })
+          .action((options) => options),
+      );
+
+      const result = program.parse(['exec', 'npm', '--dry', '--', 'test', '--watch', 'a b']);
+
+      expect(result.options).toEqual({ tool: 'npm', dry: true, rest: ['test', '--watch', 'a b'] });
+    });
+
+    it('should leave the passthrough option unset without --', () => {
+      const program = createPadrone('padrone-test').command('exec', (c) =>
+        c.options(z.object({ rest: z.array(z.string()).optional() }), { passthrough: 'rest' }).action((options) => options),
+      );
+
+      const result = program.parse('exec');
+
+      expect(result.options?.rest).toBeUndefined();
+    });
+
+    it('should not treat builtin flags after -- as help', () => {
+      const program = createPadrone('padrone-test').command('exec', (c) =>
+        c.options(z.object({ rest: z.array(z.string()).optional() }), { passthrough: 'rest' }).action((options) => options?.rest),
+      );
+
+      const result = program.cli('exec -- npm --help');
+
+      expect(result.result).toEqual(['npm', '--help']);
+    });
+
+    it('should stringify the passthrough option after --', () => {
+      const program = createPadrone('padrone-test').command('exec', (c) =>
+        c
+          .options(z.object({ tool: z.string(), rest: z.array(z.string()).optional() }), { positional: ['tool'], passthrough: 'rest' })
+          .action(),
+      );
+
+      const result = program.stringify('exec', { tool: 'npm', rest: ['test', '--watch'] });
+
+      expect(result).toBe('exec npm -- test --watch');
+    });
+
+    it('should show the passthrough option in usage instead of options', () => {
+      const program = createPadrone('padrone-test').command('exec', (c) =>
+        c.options(z.object({ rest: z.array(z.string()).optional() }), { passthrough: 'rest' }).action(),
+      );
+
+      const helpText = program.help('exec', { format: 'text' });
+
+      expect(helpText).toContain('[-- rest...]');
+      expect(helpText).not.toContain('--rest');
+    });
+  });
+
   describe('config file support', () => {
     it('should apply config values when options are not provided', () => {
       const program = createPadrone('padrone-test').command('test', (c) =>
@@ -1569,6 +2667,24 @@ describe('CLI', () => {
       expect(result.result as string).toContain('test-cli');
     });
 
+    it('should reject detail and format values that help does not support', () => {
+      const program = createPadrone('test-cli').command('greet', (c) => c.action(() => 'hello'));
+
+      try {
+        program.cli('--help --format xml');
+        expect.unreachable();
+      } catch (error) {
+        expect(error).toBeInstanceOf(PadroneFlagValueError);
+        expect((error as PadroneFlagValueError).exitCode).toBe(2);
+        expect((error as PadroneFlagValueError).message).toBe(
+          'Invalid value "xml" for --format, expected one of: text, ansi, console, markdown, html, json, auto',
+        );
+      }
+      expect(() => program.cli('help greet -d everything')).toThrow(
+        'Invalid value "everything" for --detail, expected one of: minimal, standard, full',
+      );
+    });
+
     it('should load config from --config flag', () => {
       // Create a temp config file
       const fs = require('node:fs');
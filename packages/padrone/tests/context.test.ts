@@ -0,0 +1,183 @@
+import { describe, expect, it } from 'bun:test';
+import { createPadrone, type PadroneActionContext, type PadroneCliOptions } from 'padrone';
+import * as z from 'zod/v4';
+import { createConsoleMocker } from './console-mocker.ts';
+
+type Db = { find: (id: string) => string };
+
+const createDb = (): Db => ({ find: (id) => `record ${id}` });
+
+describe('Context', () => {
+  createConsoleMocker();
+
+  describe('services', () => {
+    it('should pass services registered on the program to actions', () => {
+      const program = createPadrone('test')
+        .context(() => ({ db: createDb() }))
+        .command('get', (c) =>
+          c.options(z.object({ id: z.string() }), { positional: ['id'] }).action((options, ctx) => ctx.db.find(options.id)),
+        );
+
+      expect(program.cli('get 42').result).toBe('record 42');
+    });
+
+    it('should create services each time a command runs', () => {
+      let created = 0;
+      const program = createPadrone('test')
+        .context(() => ({ id: ++created }))
+        .command('run', (c) => c.action((_, ctx) => ctx.id));
+
+      expect(program.cli('run').result).toBe(1);
+      expect(program.cli('run').result).toBe(2);
+    });
+
+    it('should pass the services of parent commands to the factories of subcommands', () => {
+      const program = createPadrone('test')
+        .context(() => ({ db: createDb() }))
+        .command('users', (c) =>
+          c
+            .context((parent) => ({ users: { get: (id: string) => parent.db.find(`user/${id}`) } }))
+            .command('get', (c) => c.action((_, ctx) => [ctx.users.get('1'), ctx.db.find('2')])),
+        );
+
+      expect(program.cli('users get').result).toEqual(['record user/1', 'record 2']);
+    });
+
+    it('should chain factories registered on the same command', () => {
+      const program = createPadrone('test')
+        .context(() => ({ prefix: 'a' }))
+        .context((parent) => ({ name: `${parent.prefix}b` }))
+        .command('run', (c) => c.action((_, ctx) => `${ctx.prefix}:${ctx.name}`));
+
+      expect(program.cli('run').result).toBe('a:ab');
+    });
+
+    it('should inherit services registered after a subcommand is added', () => {
+      const program = createPadrone('test')
+        .command('early', (c) => c.action((_, ctx) => 'db' in ctx))
+        .context(() => ({ db: createDb() }))
+        .command('late', (c) => c.action((_, ctx) => 'db' in ctx));
+
+      expect(program.cli('early').result).toBe(true);
+      expect(program.cli('late').result).toBe(true);
+    });
+  });
+
+  describe('run details', () => {
+    // The actions return their context to inspect it, which is not meant to be printed
+    const createProgram = () =>
+      createPadrone('test')
+        .plugin('output', false)
+        .options(z.object({ verbose: z.boolean().default(false), local: z.string().optional() }), {
+          options: { verbose: { global: true } },
+        })
+        .env(z.object({ LOCAL: z.string().optional() }).transform((env) => ({ local: env.LOCAL })))
+        .command('deploy', (c) =>
+          c.options(z.object({ target: z.string() }), { positional: ['target'] }).action((_, ctx) => ctx as PadroneActionContext),
+        );
+    const runDeploy = (input: string | string[], options?: PadroneCliOptions) =>
+      createProgram().cli(input, options).result as PadroneActionContext;
+
+    it('should include the command and argv', () => {
+      const result = runDeploy(['deploy', 'my app', '--verbose']);
+
+      expect(result.command.path).toBe('deploy');
+      expect(result.argv).toEqual(['deploy', 'my app', '--verbose']);
+    });
+
+    it('should tokenize string input into argv', () => {
+      expect(runDeploy('deploy "my app" --verbose').argv).toEqual(['deploy', 'my app', '--verbose']);
+    });
+
+    it('should include the global options of parent commands', () => {
+      expect(runDeploy('deploy prod --verbose').parentOptions).toEqual({ verbose: true });
+      expect(runDeploy('deploy prod').parentOptions).toEqual({ verbose: false });
+    });
+
+    it('should include env and config data', () => {
+      const result = runDeploy('deploy prod', { env: { LOCAL: 'env' }, configData: { local: 'config' } });
+
+      expect(result.env).toEqual({ local: 'env' });
+      expect(result.config).toEqual({ local: 'config' });
+    });
+
+    it('should include a signal', () => {
+      expect(runDeploy('deploy prod').signal).toBeInstanceOf(AbortSignal);
+    });
+
+    it('should use defaults when run programmatically', () => {
+      const { result } = createProgram().run('deploy', { target: 'prod' });
+
+      expect(result.argv).toEqual([]);
+      expect(result.parentOptions).toEqual({});
+      expect(result.env).toBeUndefined();
+    });
+
+    it('should take precedence over services with the same name', () => {
+      const program = createPadrone('test')
+        .context(() => ({ argv: 'service', logger: 'logger' }))
+        .command('run', (c) => c.action((_, ctx) => [ctx.argv, ctx.logger]));
+
+      expect(program.cli('run').result as unknown).toEqual([['run'], 'logger']);
+    });
+  });
+
+  describe('injection', () => {
+    const program = createPadrone('test')
+      .context(() => ({ db: createDb() }))
+      .command('get', (c) =>
+        c.options(z.object({ id: z.string() }), { positional: ['id'] }).action((options, ctx) => ctx.db.find(options.id)),
+      )
+      .command('users', (c) =>
+        c
+          .context((parent) => ({ users: { get: (id: string) => parent.db.find(`user/${id}`) } }))
+          .command('get', (c) => c.action((_, ctx) => ctx.users.get('1'))),
+      );
+    const fakeDb: Db = { find: (id) => `fake ${id}` };
+
+    it('should override services when running a command', () => {
+      expect(program.run('get', { id: '1' }, { db: fakeDb }).result).toBe('fake 1');
+    });
+
+    it('should override services in the api', () => {
+      expect(program.api({ db: fakeDb }).get({ id: '2' })).toBe('fake 2');
+      expect(program.api().get({ id: '2' })).toBe('record 2');
+    });
+
+    it('should override services in cli', () => {
+      expect(program.cli('get 3', { context: { db: fakeDb } }).result).toBe('fake 3');
+    });
+
+    it('should pass injected services to the factories of subcommands', () => {
+      expect(program.api({ db: fakeDb }).users.get()).toBe('fake user/1');
+    });
+
+    it('should override services created by subcommands', () => {
+      expect(program.run('users get', undefined, { users: { get: () => 'stub' } }).result).toBe('stub');
+    });
+  });
+
+  describe('middleware', () => {
+    it('should expose the context to middleware', () => {
+      const program = createPadrone('test')
+        .context(() => ({ user: 'alice' }))
+        .use({ before: (ctx) => `hello ${(ctx.context as PadroneActionContext<{ user: string }>).user}` })
+        .command('run', (c) => c.action(() => 'action'));
+
+      expect(program.cli('run').result).toBe('hello alice');
+    });
+
+    it('should let middleware replace services', () => {
+      const program = createPadrone('test')
+        .context(() => ({ user: 'alice' }))
+        .use({
+          before: (ctx) => {
+            ctx.context = { ...ctx.context, user: 'bob' } as PadroneActionContext;
+          },
+        })
+        .command('run', (c) => c.action((_, ctx) => ctx.user));
+
+      expect(program.cli('run').result).toBe('bob');
+    });
+  });
+});
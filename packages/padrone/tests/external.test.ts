@@ -0,0 +1,92 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { chmodSync, mkdtempSync, readFileSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { delimiter, join } from 'node:path';
+import { type AnyPadroneCommand, createPadrone, PadroneExternalCommandError, PadroneUnknownCommandError } from 'padrone';
+import { createConsoleMocker } from './console-mocker.ts';
+
+describe('External commands', () => {
+  const { mockConsole } = createConsoleMocker();
+
+  const dir = mkdtempSync(join(tmpdir(), 'padrone-external-'));
+  const outputFile = join(dir, 'output');
+  const originalPath = process.env.PATH;
+
+  /**
+   * Writes a shell script to the directory that is put on the PATH.
+   */
+  const writeExecutable = (name: string, script: string) => {
+    const file = join(dir, name);
+    writeFileSync(file, `#!/bin/sh\n${script}\n`);
+    chmodSync(file, 0o755);
+    return file;
+  };
+
+  const fooFile = writeExecutable('test-foo', `echo "$@ $TEST_EXTERNAL" > "${outputFile}"`);
+  writeExecutable('test-fail', 'exit 3');
+  writeExecutable('test-deploy', 'exit 0');
+  writeFileSync(join(dir, 'test-readme'), 'not executable');
+
+  beforeEach(() => {
+    process.env.PATH = `${dir}${delimiter}${originalPath}`;
+  });
+
+  afterEach(() => {
+    process.env.PATH = originalPath;
+    delete process.env.TEST_EXTERNAL;
+  });
+
+  const createProgram = () => createPadrone('test', { externalCommands: true }).command('deploy', (c) => c.action(() => 'deployed'));
+
+  it('should run an executable on the PATH with the remaining arguments and the environment', async () => {
+    process.env.TEST_EXTERNAL = 'from-env';
+    const { command, result } = createProgram().cli('foo bar --baz=1');
+
+    expect((command as unknown as AnyPadroneCommand).path).toBe('foo');
+    expect(await (result as unknown)).toBe(0);
+    expect(readFileSync(outputFile, 'utf-8')).toBe('bar --baz=1 from-env\n');
+    expect(mockConsole.log).not.toHaveBeenCalled();
+  });
+
+  it('should reject with the exit code of the executable', async () => {
+    const { result } = createProgram().cli('fail');
+
+    await expect(result).rejects.toBeInstanceOf(PadroneExternalCommandError);
+    await expect(result).rejects.toMatchObject({ exitCode: 3, message: 'Command "fail" exited with code 3' });
+  });
+
+  it('should prefer registered commands and ignore files that are not executable', () => {
+    expect(createProgram().cli('deploy').result).toBe('deployed');
+    expect(() => createProgram().cli('readme')).toThrow(PadroneUnknownCommandError);
+  });
+
+  it('should only run external commands when enabled', () => {
+    expect(() =>
+      createPadrone('test')
+        .command('deploy', (c) => c.action())
+        .cli('foo'),
+    ).toThrow(PadroneUnknownCommandError);
+  });
+
+  it('should use a custom prefix', async () => {
+    const program = createPadrone('other', { externalCommands: 'test-' });
+
+    expect(await (program.cli('foo').result as unknown)).toBe(0);
+  });
+
+  it('should list external commands in the help of the program', () => {
+    const help = createProgram().help(undefined, { format: 'text' });
+
+    expect(help).toContain('Usage: test [command]');
+    expect(help).toContain('External Commands:');
+    expect(help).toContain(`foo   ${fooFile}`);
+    expect(help).not.toContain(join(dir, 'test-deploy'));
+    expect(help).not.toContain('readme');
+  });
+
+  it('should offer external commands in the completion scripts', () => {
+    const { result } = createProgram().cli('completion bash');
+
+    expect(result as unknown).toContain('local commands="deploy fail foo"');
+  });
+});
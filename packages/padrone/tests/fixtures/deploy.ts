@@ -0,0 +1,10 @@
+import type { PadroneCommandBuilder } from 'padrone';
+import * as z from 'zod/v4';
+
+/** A command module that is loaded lazily by the tests. */
+export default (c: PadroneCommandBuilder<'deploy'>) =>
+  c
+    .configure({ description: 'Deploys the app to an environment' })
+    .options(z.object({ env: z.string().describe('Environment to deploy to') }), { positional: ['env'] })
+    .command('status', (c) => c.action(() => 'all good'))
+    .action((options) => `deployed to ${options.env}`);
@@ -1,5 +1,6 @@
 import { describe, expect, it } from 'bun:test';
-import type { HelpInfo } from 'padrone';
+import { createPadrone, type HelpInfo } from 'padrone';
+import * as z from 'zod/v4';
 import { createWeatherProgram } from './common.ts';
 
 describe('help', () => {
@@ -193,3 +194,119 @@ describe('help with minimal detail mode', () => {
     expect(jsonHelp).toBe(markdownHelp);
   });
 });
+
+describe('help with global options', () => {
+  const program = createPadrone('test')
+    .options(
+      z.object({
+        verbose: z.boolean().optional().describe('Show more output'),
+        profile: z.string().optional().describe('Profile to use'),
+        local: z.boolean().optional().describe('Only for the root command'),
+      }),
+      { options: { verbose: { alias: 'V', global: true }, profile: { global: true } } },
+    )
+    .command('deploy', (c) =>
+      c
+        .options(z.object({ target: z.string().describe('Deploy target'), profile: z.string().optional().describe('Deploy profile') }))
+        .action(() => {}),
+    );
+
+  it('should list inherited global options in their own section', () => {
+    const help = program.help('deploy', { format: 'text' });
+    expect(help).toMatchSnapshot();
+  });
+
+  it('should not list global options that the command overrides', () => {
+    const info = JSON.parse(program.help('deploy', { format: 'json' })) as HelpInfo;
+
+    expect(info.options?.map((o) => o.name)).toEqual(['target', 'profile']);
+    expect(info.globalOptions?.map((o) => o.name)).toEqual(['verbose']);
+    expect(info.globalOptions?.[0]?.aliases).toEqual(['V']);
+  });
+
+  it('should show global options as regular options on the declaring command', () => {
+    const info = JSON.parse(program.help(undefined, { format: 'json' })) as HelpInfo;
+
+    expect(info.options?.map((o) => o.name)).toEqual(['verbose', 'profile', 'local']);
+    expect(info.globalOptions).toBeUndefined();
+  });
+});
+
+describe('help with option relations', () => {
+  const program = createPadrone('test').command('export', (c) =>
+    c
+      .options(
+        z.object({
+          json: z.boolean().optional().describe('Output JSON'),
+          format: z.string().optional().describe('Output format'),
+          quiet: z.boolean().optional(),
+          token: z.string().optional(),
+        }),
+        { options: { json: { conflicts: 'format', implies: { quiet: true } }, format: { requires: 'token' } } },
+      )
+      .action(() => {}),
+  );
+
+  it('should show conflicts, requirements and implied options', () => {
+    const help = program.help('export', { format: 'text' });
+    expect(help).toMatchSnapshot();
+  });
+
+  it('should include relations in both directions in the help info', () => {
+    const info = JSON.parse(program.help('export', { format: 'json' })) as HelpInfo;
+    const options = Object.fromEntries((info.options ?? []).map((o) => [o.name, o]));
+
+    expect(options.json?.conflicts).toEqual(['format']);
+    expect(options.json?.implies).toEqual({ quiet: true });
+    expect(options.format?.conflicts).toEqual(['json']);
+    expect(options.format?.requires).toEqual(['token']);
+  });
+});
+
+describe('help with option groups', () => {
+  const program = createPadrone('test').command('export', (c) =>
+    c
+      .options(
+        z.object({
+          verbose: z.boolean().optional().describe('Show more output'),
+          json: z.boolean().optional().describe('Output JSON'),
+          yaml: z.boolean().optional().describe('Output YAML'),
+          host: z.string().optional().describe('Host to connect to'),
+          port: z.number().optional().describe('Port to connect to'),
+        }),
+        { groups: { Output: { options: ['json', 'yaml'], exclusive: 'at-most-one' }, Network: ['host', 'port'] } },
+      )
+      .action(() => {}),
+  );
+
+  it('should show each group in its own section', () => {
+    const help = program.help('export', { format: 'text' });
+    expect(help).toMatchSnapshot();
+  });
+
+  it('should include the groups in the help info', () => {
+    const info = JSON.parse(program.help('export', { format: 'json' })) as HelpInfo;
+
+    expect(info.options?.map((o) => o.name)).toEqual(['verbose']);
+    expect(info.optionGroups?.map((g) => [g.name, g.exclusive, g.options.map((o) => o.name)])).toEqual([
+      ['Output', 'at-most-one', ['json', 'yaml']],
+      ['Network', undefined, ['host', 'port']],
+    ]);
+  });
+});
+
+describe('help with a default command', () => {
+  const program = createPadrone('test').command('remote', (c) =>
+    c
+      .configure({ defaultCommand: 'ls' })
+      .command(['list', 'ls'], (c) => c.configure({ description: 'List remotes' }).action())
+      .command('add', (c) => c.configure({ description: 'Add a remote' }).action()),
+  );
+
+  it('should mark the default subcommand', () => {
+    const help = program.help('remote', { format: 'text' });
+
+    expect(help).toContain('list (ls)  List remotes (default)');
+    expect(help).not.toContain('Add a remote (default)');
+  });
+});
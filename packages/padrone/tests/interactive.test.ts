@@ -0,0 +1,217 @@
+import { describe, expect, it } from 'bun:test';
+import { createPadrone, PadroneApprovalError, PadroneValidationError } from 'padrone';
+import * as z from 'zod/v4';
+import { createConsoleMocker } from './console-mocker.ts';
+import { createStreams } from './stream-mocker.ts';
+
+const createProgram = () =>
+  createPadrone('test')
+    .command('deploy', (c) =>
+      c
+        .options(
+          z.object({
+            target: z.string().describe('Where to deploy'),
+            replicas: z.coerce.number().min(1),
+            env: z.enum(['dev', 'prod']),
+            force: z.boolean(),
+            tag: z.string().optional(),
+          }),
+          { positional: ['target'] },
+        )
+        .action((options) => options),
+    )
+    .command('tag', (c) =>
+      c.options(z.object({ regions: z.enum(['eu', 'us', 'asia']).array(), ports: z.number().array() })).action((options) => options),
+    );
+
+describe('Interactive', () => {
+  createConsoleMocker();
+
+  it('should prompt for missing required options with prompts matching their types', async () => {
+    const streams = createStreams(['web', '3', '2', 'y']);
+    const { result } = await createProgram().interactive<'deploy'>('deploy', streams);
+
+    expect(result).toEqual({ target: 'web', replicas: 3, env: 'prod', force: true });
+    expect(streams.written()).toContain('? Where to deploy (<target>): ');
+    expect(streams.written()).toContain('? --replicas: ');
+    expect(streams.written()).toContain('? --env\n  1) dev\n  2) prod\n');
+    expect(streams.written()).toContain('? --force (y/n): ');
+  });
+
+  it('should only prompt for options that are missing', async () => {
+    const streams = createStreams(['n']);
+    const { result } = await createProgram().interactive<'deploy'>('deploy web --replicas 2 --env dev', streams);
+
+    expect(result).toEqual({ target: 'web', replicas: 2, env: 'dev', force: false });
+    expect(streams.written()).toBe('? --force (y/n): ');
+  });
+
+  it('should accept select answers by value', async () => {
+    const streams = createStreams(['dev']);
+    const { result } = await createProgram().interactive<'deploy'>('deploy web --replicas 2 --no-force', streams);
+
+    expect(result.env).toBe('dev');
+  });
+
+  it('should ask again for invalid answers', async () => {
+    const streams = createStreams(['0', '5', 'dev', 'maybe', 'yes', 'abc', '2']);
+    const { result } = await createProgram().interactive<'deploy'>('deploy web', streams);
+
+    expect(result.force).toBe(true);
+    expect(result.env).toBe('dev');
+    expect(result.replicas).toBe(2);
+    expect(streams.written()).toContain('Please answer y or n.');
+    expect(streams.written()).toContain('Please choose a number between 1 and 2.');
+    expect(streams.written()).toContain('Too small: expected number to be >=1');
+    expect(streams.written()).toContain('Invalid input: expected number, received NaN');
+  });
+
+  it('should prompt for arrays', async () => {
+    const streams = createStreams(['1, us', '80, 443']);
+    const { result } = await createProgram().interactive<'tag'>('tag', streams);
+
+    expect(result).toEqual({ regions: ['eu', 'us'], ports: [80, 443] });
+    expect(streams.written()).toContain('? --regions\n  1) eu\n  2) us\n  3) asia\n');
+  });
+
+  it('should reject when the input ends before all questions are answered', async () => {
+    const streams = createStreams(['web']);
+
+    await expect(createProgram().interactive('deploy', streams)).rejects.toThrow('The input ended before all questions were answered');
+  });
+
+  it('should not prompt when stdin is not a TTY', async () => {
+    const isTTY = process.stdin.isTTY;
+    process.stdin.isTTY = false;
+    try {
+      await expect(createProgram().interactive('deploy')).rejects.toBeInstanceOf(PadroneValidationError);
+    } finally {
+      process.stdin.isTTY = isTTY;
+    }
+  });
+
+  it('should report options that are still invalid after prompting', async () => {
+    const program = createPadrone('test').command('run', (c) =>
+      c.options(z.object({ name: z.string(), count: z.number().optional() })).action((options) => options),
+    );
+
+    await expect(program.interactive('run --count abc', createStreams(['job']))).rejects.toBeInstanceOf(PadroneValidationError);
+  });
+});
+
+describe('Approval', () => {
+  createConsoleMocker();
+
+  const createApprovalProgram = (log: string[] = []) =>
+    createPadrone('test')
+      .command('drop', (c) =>
+        c
+          .configure({ needsApproval: true })
+          .options(z.object({ table: z.string() }), { positional: ['table'] })
+          .action((options) => {
+            log.push(options.table);
+            return options.table;
+          }),
+      )
+      .command('clean', (c) =>
+        c
+          .configure({ needsApproval: (options: { force?: boolean }) => !!options.force })
+          .options(z.object({ force: z.boolean().optional() }))
+          .action(() => 'cleaned'),
+      );
+
+  /**
+   * Runs the test with stdin marked as not being a TTY, like in CI or when input is piped.
+   */
+  const withoutTTY = async (fn: () => unknown) => {
+    const isTTY = process.stdin.isTTY;
+    process.stdin.isTTY = false;
+    try {
+      await fn();
+    } finally {
+      process.stdin.isTTY = isTTY;
+    }
+  };
+
+  it('should refuse to run commands that need approval when there is no terminal', () =>
+    withoutTTY(() => {
+      const log: string[] = [];
+      expect(() => createApprovalProgram(log).cli('drop users')).toThrow(new PadroneApprovalError('drop', false));
+      expect(log).toEqual([]);
+    }));
+
+  it('should run commands without asking when --yes is passed', () =>
+    withoutTTY(() => {
+      expect(createApprovalProgram().cli('drop users --yes').result).toBe('users');
+      expect(createApprovalProgram().cli('drop -y users').result).toBe('users');
+    }));
+
+  it('should decide with the options when needsApproval is a function', () =>
+    withoutTTY(() => {
+      expect(createApprovalProgram().cli('clean').result).toBe('cleaned');
+      expect(() => createApprovalProgram().cli('clean --force')).toThrow(PadroneApprovalError);
+    }));
+
+  it('should not consume --yes when the command defines it', () => {
+    const program = createPadrone('test').command('install', (c) =>
+      c
+        .configure({ needsApproval: true })
+        .options(z.object({ yes: z.boolean().optional() }))
+        .action((options) => options.yes),
+    );
+
+    expect(() => program.cli('install --yes')).toThrow(PadroneApprovalError);
+  });
+
+  it('should not approve commands with --yes when the yes plugin is disabled or re-aliased', () =>
+    withoutTTY(() => {
+      expect(() => createApprovalProgram().plugin('yes', false).cli('drop users --yes')).toThrow(PadroneApprovalError);
+      expect(() =>
+        createApprovalProgram()
+          .plugin('yes', { flags: { yes: ['f'] } })
+          .cli('drop users -y'),
+      ).toThrow(PadroneApprovalError);
+      expect(
+        createApprovalProgram()
+          .plugin('yes', { flags: { yes: ['f'] } })
+          .cli('drop -f users').result,
+      ).toBe('users');
+    }));
+
+  it('should run commands approved by a plugin', () =>
+    withoutTTY(() => {
+      const program = createApprovalProgram().plugin({
+        name: 'force',
+        flags: { force: { boolean: true } },
+        approve: ({ flags }) => (flags.force ? true : undefined),
+      });
+
+      expect(program.cli('drop --force users').result).toBe('users');
+    }));
+
+  it('should ask for confirmation in interactive mode', async () => {
+    const streams = createStreams(['y']);
+    const { result } = await createApprovalProgram().interactive<'drop'>('drop users', streams);
+
+    expect(result).toBe('users');
+    expect(streams.written()).toBe('? Are you sure you want to run "drop"? (y/N): ');
+  });
+
+  it('should not run the command when the confirmation is declined', async () => {
+    const log: string[] = [];
+    const streams = createStreams(['']);
+
+    await expect(createApprovalProgram(log).interactive('drop users', streams)).rejects.toThrow('Command "drop" was not confirmed');
+    expect(log).toEqual([]);
+  });
+
+  it('should not ask again when running as an AI tool', async () => {
+    await withoutTTY(async () => {
+      const tool = createApprovalProgram().tool();
+
+      const needsApproval = tool.needsApproval as (input: { command: string }) => Promise<boolean>;
+      expect(await needsApproval({ command: 'drop users' })).toBe(true);
+      expect(await tool.execute!({ command: 'drop users' }, { toolCallId: '1', messages: [] })).toBe('users');
+    });
+  });
+});
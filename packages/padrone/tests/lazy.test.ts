@@ -0,0 +1,179 @@
+import { describe, expect, it } from 'bun:test';
+import { createPadrone, lazy, type PadroneCommandBuilder, PadroneUnknownCommandError } from 'padrone';
+import * as z from 'zod/v4';
+import { createConsoleMocker } from './console-mocker.ts';
+
+describe('Lazy commands', () => {
+  createConsoleMocker();
+
+  const createProgram = () => {
+    const loaded: string[] = [];
+    const program = createPadrone('test')
+      .configure({ version: '1.0.0' })
+      .command('build', (c) => c.action(() => 'built'))
+      .command(
+        ['deploy', 'd'],
+        lazy(() => {
+          loaded.push('deploy');
+          return import('./fixtures/deploy.ts');
+        }),
+        { title: 'Deploy the app' },
+      )
+      .command(
+        'clean',
+        lazy(() => {
+          loaded.push('clean');
+          return Promise.resolve((c: PadroneCommandBuilder<'clean'>) =>
+            c.options(z.object({ force: z.boolean().optional() })).action((options) => options.force),
+          );
+        }),
+      );
+    return { program, loaded };
+  };
+
+  it('should not load lazy commands that are not selected', () => {
+    const { program, loaded } = createProgram();
+
+    expect(program.cli('build').result).toBe('built');
+    expect(program.cli('--version').result as unknown).toBe('1.0.0');
+    expect(program.help(undefined, { format: 'text' })).toContain('Deploy the app');
+    expect(loaded).toEqual([]);
+  });
+
+  it('should load a lazy command when the input selects it', async () => {
+    const { program, loaded } = createProgram();
+
+    const { command, options, result } = await program.cliAsync('deploy production');
+
+    expect(command.path).toBe('deploy');
+    expect(options).toEqual({ env: 'production' });
+    expect(await result).toBe('deployed to production');
+    expect(loaded).toEqual(['deploy']);
+  });
+
+  it('should load a lazy command only once', async () => {
+    const { program, loaded } = createProgram();
+
+    await program.cliAsync('d staging');
+    await program.cliAsync('deploy production');
+    await program.run('deploy', { env: 'dev' });
+
+    expect(loaded).toEqual(['deploy']);
+  });
+
+  it('should find the subcommands of a loaded command', async () => {
+    const { program } = createProgram();
+
+    expect(await (await program.cliAsync('deploy status')).result).toBe('all good');
+    expect(await (await program.parseAsync('deploy status')).command.path).toBe('deploy status');
+  });
+
+  it('should accept a module that exports the builder function itself', async () => {
+    const { program } = createProgram();
+
+    expect(await (await program.cliAsync('clean --force')).result).toBe(true);
+  });
+
+  it('should throw in cli() when the input selects a lazy command that is not loaded', () => {
+    const { program } = createProgram();
+
+    expect(() => program.cli('deploy production')).toThrow('lazy commands are not supported by cli()');
+  });
+
+  it('should not run a lazy command after cli() has thrown', async () => {
+    const ran: string[] = [];
+    const program = createPadrone('test').command(
+      'sync',
+      lazy(() => Promise.resolve((c: PadroneCommandBuilder<'sync'>) => c.action(() => ran.push('sync')))),
+    );
+
+    expect(() => program.cli('sync')).toThrow('lazy commands are not supported by cli()');
+    expect(() => program.parse('sync')).toThrow('lazy commands are not supported by parse()');
+    await program.load();
+
+    expect(ran).toEqual([]);
+  });
+
+  it('should run a lazy command synchronously once it is loaded', async () => {
+    const { program } = createProgram();
+    await program.load('deploy');
+
+    const { result } = program.cli('deploy production');
+
+    expect(result).toBeInstanceOf(Promise);
+    expect(await result).toBe('deployed to production');
+  });
+
+  it('should load a lazy command when it is run by name', async () => {
+    const { program, loaded } = createProgram();
+
+    const { result } = program.run('deploy', { env: 'production' });
+
+    expect(result).toBeInstanceOf(Promise);
+    expect(await result).toBe('deployed to production');
+    expect(await program.api().deploy({ env: 'dev' })).toBe('deployed to dev');
+    expect(loaded).toEqual(['deploy']);
+  });
+
+  it('should find a lazy command before it is loaded', () => {
+    const { program, loaded } = createProgram();
+
+    const deploy = program.find('d');
+
+    expect(deploy?.path).toBe('deploy');
+    expect(deploy?.title).toBe('Deploy the app');
+    expect(deploy?.lazy).toBe(true);
+    expect(loaded).toEqual([]);
+  });
+
+  it('should load every lazy command', async () => {
+    const { program, loaded } = createProgram();
+
+    await program.load();
+
+    expect(loaded).toEqual(['deploy', 'clean']);
+    expect(program.find('deploy status')?.path).toBe('deploy status');
+  });
+
+  it('should throw when loading a command that does not exist', async () => {
+    const { program } = createProgram();
+
+    await expect(program.load('deploy missing')).rejects.toBeInstanceOf(PadroneUnknownCommandError);
+  });
+
+  it('should retry loading after the import fails', async () => {
+    let attempts = 0;
+    const program = createPadrone('test').command(
+      'flaky',
+      lazy(() => {
+        attempts++;
+        if (attempts === 1) return Promise.reject(new Error('network error'));
+        return Promise.resolve({ default: (c: PadroneCommandBuilder<'flaky'>) => c.action(() => 'loaded') });
+      }),
+    );
+
+    await expect(program.cliAsync('flaky')).rejects.toThrow('network error');
+    expect(await (await program.cliAsync('flaky')).result).toBe('loaded');
+  });
+
+  it('should load a lazy command to show its help', async () => {
+    const { program, loaded } = createProgram();
+
+    const help = await program.cliAsync('help deploy');
+    expect(help.result as unknown).toContain('Deploys the app to an environment');
+    expect(help.result as unknown).toContain('status');
+
+    const flagHelp = await program.cliAsync('deploy --help');
+    expect(flagHelp.result as unknown).toContain('Environment to deploy to');
+    expect(loaded).toEqual(['deploy']);
+  });
+
+  it('should load every lazy command for the completion scripts', async () => {
+    const { program, loaded } = createProgram();
+
+    const { result } = await program.cliAsync('completion bash');
+
+    expect(result as unknown).toContain('status');
+    expect(loaded).toEqual(['deploy', 'clean']);
+  });
+});
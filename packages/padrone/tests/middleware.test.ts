@@ -0,0 +1,201 @@
+import { describe, expect, it } from 'bun:test';
+import { createPadrone, PadroneActionError, type PadroneMiddleware } from 'padrone';
+import * as z from 'zod/v4';
+import { createConsoleMocker } from './console-mocker.ts';
+
+describe('Middleware', () => {
+  createConsoleMocker();
+
+  const createProgram = (middleware: PadroneMiddleware) =>
+    createPadrone('test')
+      .use(middleware)
+      .command('greet', (c) =>
+        c.options(z.object({ name: z.string() }), { positional: ['name'] }).action((options) => `Hello ${options.name}`),
+      )
+      .command('fail', (c) =>
+        c.action(() => {
+          throw new Error('Boom');
+        }),
+      );
+
+  describe('hooks', () => {
+    it('should run before and after hooks around the action', () => {
+      const calls: string[] = [];
+      const program = createProgram({
+        before: (ctx) => {
+          calls.push(`before ${ctx.command.path} ${JSON.stringify(ctx.options)}`);
+        },
+        after: (ctx) => {
+          calls.push(`after ${ctx.result}`);
+        },
+      });
+
+      const result = program.cli('greet World');
+
+      expect(result.result).toBe('Hello World');
+      expect(calls).toEqual(['before greet {"name":"World"}', 'after Hello World']);
+    });
+
+    it('should short-circuit the action when before returns a value', () => {
+      let called = false;
+      const program = createPadrone('test')
+        .use({ before: () => 'cached' })
+        .command('run', (c) =>
+          c.action(() => {
+            called = true;
+            return 'fresh';
+          }),
+        );
+
+      expect(program.run('run', undefined).result).toBe('cached');
+      expect(called).toBe(false);
+    });
+
+    it('should transform the result when after returns a value', () => {
+      const program = createProgram({ after: (ctx) => String(ctx.result).toUpperCase() });
+
+      expect(program.cli('greet World').result).toBe('HELLO WORLD');
+    });
+
+    it('should let before replace the options passed to the action', () => {
+      const program = createProgram({
+        before: (ctx) => {
+          ctx.options = { name: 'Override' };
+        },
+      });
+
+      expect(program.cli('greet World').result).toBe('Hello Override');
+    });
+
+    it('should share state between hooks', () => {
+      const program = createProgram({
+        before: (ctx) => {
+          ctx.state.prefix = '>> ';
+        },
+        after: (ctx) => `${ctx.state.prefix}${ctx.result}`,
+      });
+
+      expect(program.cli('greet World').result).toBe('>> Hello World');
+    });
+  });
+
+  describe('errors', () => {
+    it('should recover from errors when the error hook returns a value', () => {
+      const program = createProgram({ error: (ctx) => `Recovered from ${(ctx.error as Error).message}` });
+
+      expect(program.cli('fail').result as unknown).toBe('Recovered from Boom');
+    });
+
+    it('should rethrow errors when the error hook returns nothing', () => {
+      const seen: unknown[] = [];
+      const program = createProgram({
+        error: (ctx) => {
+          seen.push(ctx.error);
+        },
+      });
+
+      expect(() => program.cli('fail')).toThrow(PadroneActionError);
+      expect(seen).toHaveLength(1);
+    });
+
+    it('should let before hooks abort the command by throwing', () => {
+      const program = createProgram({
+        before: () => {
+          throw new Error('Not logged in');
+        },
+      });
+
+      expect(() => program.cli('greet World')).toThrow('Not logged in');
+    });
+  });
+
+  describe('inheritance', () => {
+    it('should run parent middleware around child middleware', () => {
+      const calls: string[] = [];
+      const track = (name: string): PadroneMiddleware => ({
+        before: () => {
+          calls.push(`${name}:before`);
+        },
+        after: () => {
+          calls.push(`${name}:after`);
+        },
+      });
+
+      const program = createPadrone('test')
+        .use(track('root'))
+        .command('db', (c) => c.use(track('db')).command('migrate', (c) => c.use(track('migrate')).action(() => calls.push('action'))));
+
+      program.cli('db migrate');
+
+      expect(calls).toEqual(['root:before', 'db:before', 'migrate:before', 'action', 'migrate:after', 'db:after', 'root:after']);
+    });
+
+    it('should run middleware registered after the commands were added', () => {
+      const calls: string[] = [];
+      const program = createPadrone('test')
+        .command('db', (c) =>
+          c.command('migrate', (c) => c.action(() => calls.push('action'))).use({ before: () => void calls.push('db') }),
+        )
+        .use({ before: () => void calls.push('root') });
+
+      program.cli('db migrate');
+
+      expect(calls).toEqual(['root', 'db', 'action']);
+    });
+
+    it('should not apply child middleware to the parent or siblings', () => {
+      const calls: string[] = [];
+      const program = createPadrone('test')
+        .command('a', (c) => c.use({ before: () => void calls.push('a') }).action(() => 'a'))
+        .command('b', (c) => c.action(() => 'b'));
+
+      program.cli('b');
+
+      expect(calls).toEqual([]);
+    });
+
+    it('should apply to run() and api() as well as cli()', () => {
+      let count = 0;
+      const program = createProgram({
+        before: () => {
+          count++;
+        },
+      });
+
+      program.run('greet', { name: 'A' });
+      program.api().greet({ name: 'B' });
+
+      expect(count).toBe(2);
+    });
+  });
+
+  describe('async', () => {
+    it('should await async hooks and return a promise', async () => {
+      const program = createProgram({
+        before: async (ctx) => {
+          await Promise.resolve();
+          ctx.options = { name: 'Async' };
+        },
+        after: async (ctx) => `${ctx.result}!`,
+      });
+
+      const result = await program.cliAsync<'greet'>('greet World');
+
+      expect(result.result).toBe('Hello Async!');
+    });
+
+    it('should route async action rejections to the error hook', async () => {
+      const program = createPadrone('test')
+        .use({ error: async (ctx) => `Recovered from ${(ctx.error as Error).message}` })
+        .command('fetch', (c) =>
+          c.action(async () => {
+            throw new Error('Timeout');
+          }),
+        );
+
+      const result = await program.cliAsync('fetch');
+
+      expect(result.result as unknown).toBe('Recovered from Timeout');
+    });
+  });
+});
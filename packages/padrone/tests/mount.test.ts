@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'bun:test';
+import { type AnyPadroneCommand, createPadrone, lazy, type PadroneCommandBuilder } from 'padrone';
+import * as z from 'zod/v4';
+import { createConsoleMocker } from './console-mocker.ts';
+
+describe('Mounted programs', () => {
+  createConsoleMocker();
+
+  const createDbProgram = () =>
+    createPadrone('db')
+      .configure({ description: 'Manage the database' })
+      .command(['migrate', 'm'], (c) =>
+        c
+          .options(z.object({ to: z.coerce.number().optional(), url: z.string().optional() }))
+          .command('status', (c) => c.action(() => 'up to date'))
+          .action((options) => options),
+      )
+      .command(
+        'seed',
+        lazy(() => Promise.resolve({ default: (c: PadroneCommandBuilder<'seed'>) => c.action(() => 'seeded') })),
+      );
+
+  const createProgram = () =>
+    createPadrone('mycli')
+      .command('build', (c) => c.action(() => 'built'))
+      .mount(['db', 'database'], createDbProgram());
+
+  it('should run the commands of a mounted program under its name', () => {
+    const { command, options } = createProgram().cli('db migrate --to=3');
+
+    expect(command.path).toBe('db migrate');
+    expect(options).toEqual({ to: 3 });
+    expect(createProgram().cli('db migrate status').command.path).toBe('db migrate status');
+  });
+
+  it('should re-root the paths and parents of the mounted commands', () => {
+    const program = createProgram();
+    const status = program.find('db migrate status') as AnyPadroneCommand;
+
+    expect(status.parent?.path).toBe('db migrate');
+    expect(status.parent?.parent?.path).toBe('db');
+    expect(status.parent?.parent?.name).toBe('db');
+    expect(status.parent?.parent?.parent?.name).toBe('mycli');
+    expect(program.find('db')?.description).toBe('Manage the database');
+  });
+
+  it('should keep the aliases of the mount and of the mounted commands', () => {
+    expect((createProgram().cli('database m --to=1').command as AnyPadroneCommand).path).toBe('db migrate');
+    expect(createProgram().find('database m status')?.path).toBe('db migrate status');
+  });
+
+  it('should leave the mounted program unchanged', () => {
+    const db = createDbProgram();
+    createPadrone('mycli').mount('db', db);
+
+    expect(db.cli('migrate status').command.path).toBe('migrate status');
+    expect((db.find('migrate') as AnyPadroneCommand).parent?.name).toBe('db');
+  });
+
+  it('should run the mounted commands programmatically', async () => {
+    const program = createProgram();
+
+    expect(program.run('db migrate', { to: 2 }).result).toEqual({ to: 2 });
+    expect(program.api().db.migrate.status()).toBe('up to date');
+    expect(await program.run('db seed', undefined).result).toBe('seeded');
+  });
+
+  it('should re-root lazy commands of the mounted program once they are loaded', async () => {
+    const program = createProgram();
+    await program.load('db seed');
+
+    const seed = program.find('db seed') as AnyPadroneCommand;
+    expect(seed.path).toBe('db seed');
+    expect(seed.parent?.path).toBe('db');
+    expect(await program.cli('db seed').result).toBe('seeded');
+  });
+
+  it('should inherit the config and env schemas of the parent command', () => {
+    const program = createPadrone('mycli').command('tools', (c) =>
+      c
+        .env(z.object({ DB_URL: z.string().optional() }).transform((env) => ({ url: env.DB_URL })))
+        .configFile(undefined, z.object({ to: z.number().optional() }))
+        .mount('db', createDbProgram()),
+    );
+
+    const { options } = program.cli('tools db migrate', { env: { DB_URL: 'postgres://db' }, configData: { to: 5 } });
+
+    expect(options).toEqual({ to: 5, url: 'postgres://db' });
+  });
+
+  it('should show the mounted program in the help', () => {
+    const program = createProgram();
+
+    expect(program.help(undefined, { format: 'text' })).toContain('db (database)  Manage the database');
+    expect(program.help('db migrate', { format: 'text' })).toContain('Usage: mycli db migrate');
+  });
+});
@@ -0,0 +1,168 @@
+import { afterEach, describe, expect, it } from 'bun:test';
+import { createPadrone, PadroneFlagValueError, PadroneStrictError } from 'padrone';
+import * as z from 'zod/v4';
+import { createConsoleMocker } from './console-mocker.ts';
+import { createStreams } from './stream-mocker.ts';
+
+describe('Output', () => {
+  const { mockConsole } = createConsoleMocker();
+  const originalIsTTY = process.stdout.isTTY;
+
+  afterEach(() => {
+    process.stdout.isTTY = originalIsTTY;
+  });
+
+  const users = [
+    { name: 'ada', role: 'admin', active: true },
+    { name: 'grace', role: 'developer' },
+  ];
+
+  const createProgram = () =>
+    createPadrone('test')
+      .configure({ strict: true })
+      .command('users', (c) => c.action(() => users))
+      .command('user', (c) =>
+        c
+          .options(z.object({ name: z.string() }), { positional: ['name'] })
+          .action((options) => users.find((user) => user.name === options.name)!)
+          .render((user) => `${user.name} (${user.role})`),
+      )
+      .command('count', (c) => c.action(async () => users.length))
+      .command('noop', (c) => c.action(() => {}))
+      .command('big', (c) => c.action(() => 10n))
+      .command('cycle', (c) =>
+        c.action(async () => {
+          const cycle: Record<string, unknown> = {};
+          cycle.self = cycle;
+          return cycle;
+        }),
+      )
+      .command('export', (c) =>
+        c
+          .options(
+            z.object({
+              out: z
+                .string()
+                .optional()
+                .meta({ alias: ['o'] }),
+            }),
+          )
+          .action((options) => options.out),
+      );
+
+  const printed = () => mockConsole.log.mock.calls.map((call) => call[0]);
+
+  it('should print the result as JSON with --output json', () => {
+    createProgram().cli('users --output json');
+
+    expect(printed()).toEqual([JSON.stringify(users, null, 2)]);
+  });
+
+  it('should print the result as YAML with --output yaml', () => {
+    createProgram().cli('users -o yaml');
+
+    expect(printed()).toEqual(['- name: ada\n  role: admin\n  active: true\n- name: grace\n  role: developer']);
+  });
+
+  it('should print arrays of objects as a table with --output table', () => {
+    createProgram().cli('users --output=table');
+
+    expect(printed()).toEqual(['name   role       active\nada    admin      true\ngrace  developer']);
+  });
+
+  it('should print the result with the render hook of the command with --output text', () => {
+    createProgram().cli('user ada --output text');
+
+    expect(printed()).toEqual(['ada (admin)']);
+  });
+
+  it('should pick a readable format for text when the command has no render hook', () => {
+    createProgram().cli('users --output text');
+    createProgram().cli('user ada --output yaml');
+
+    expect(printed()).toEqual([
+      'name   role       active\nada    admin      true\ngrace  developer',
+      'name: ada\nrole: admin\nactive: true',
+    ]);
+  });
+
+  it('should print text on a terminal and JSON otherwise', () => {
+    process.stdout.isTTY = true;
+    createProgram().cli('user grace');
+    process.stdout.isTTY = false;
+    createProgram().cli('user grace');
+
+    expect(printed()).toEqual(['grace (developer)', JSON.stringify(users[1], null, 2)]);
+  });
+
+  it('should print the result of async commands once it resolves', async () => {
+    const { result } = createProgram().cli('count --output json');
+
+    expect(printed()).toEqual([]);
+    expect(await result).toBe(2);
+    expect(printed()).toEqual(['2']);
+  });
+
+  it('should not print undefined results', () => {
+    createProgram().cli('noop --output json');
+
+    expect(printed()).toEqual([]);
+  });
+
+  it('should not print results that cannot be formatted, without failing the run', async () => {
+    expect(createProgram().cli('big --output json').result).toBe(10n);
+    const { result } = createProgram().cli('cycle --output yaml');
+
+    expect(await result).toHaveProperty('self');
+    expect(printed()).toEqual([]);
+  });
+
+  it('should reject values of --output that are not formats before running the command', () => {
+    let ran = false;
+    const program = createPadrone('test').command('run', (c) => c.action(() => (ran = true)));
+
+    expect(() => program.cli('run --output xml')).toThrow(PadroneFlagValueError);
+    expect(() => program.cli('run -o xml')).toThrow('Invalid value "xml" for --output, expected one of: json, yaml, table, text');
+    expect(ran).toBe(false);
+  });
+
+  it('should not treat --output as an unknown option of strict commands', async () => {
+    expect(() => createProgram().cli('users --output json')).not.toThrow();
+    expect(() => createProgram().cli('users --format json')).toThrow(PadroneStrictError);
+    expect(createProgram().parse('users --output json --config app.json').command.path).toBe('users');
+    const needsApproval = createProgram().tool().needsApproval as (input: { command: string }) => Promise<boolean>;
+    expect(await needsApproval({ command: 'users -o json' })).toBe(false);
+  });
+
+  it('should leave -o to a command that defines it', () => {
+    process.stdout.isTTY = false;
+    const { result } = createProgram().cli('export -o yaml');
+
+    expect(result).toBe('yaml');
+    expect(printed()).toEqual([JSON.stringify('yaml', null, 2)]);
+  });
+
+  it('should not print results when the output plugin is disabled', () => {
+    const { result } = createProgram().plugin('output', false).cli('users');
+
+    expect(result).toEqual(users);
+    expect(printed()).toEqual([]);
+  });
+
+  it('should return raw results from tools unless --output is given', async () => {
+    const tool = createProgram().tool();
+
+    expect(await tool.execute!({ command: 'users' }, { toolCallId: '1', messages: [] })).toEqual(users);
+    expect(await tool.execute!({ command: 'user ada --output text' }, { toolCallId: '2', messages: [] })).toBe('ada (admin)');
+    expect(printed()).toEqual([]);
+  });
+
+  it('should print results in the REPL', async () => {
+    const streams = createStreams(['user ada']);
+
+    await createProgram().repl(streams);
+
+    expect(streams.written()).toContain(JSON.stringify(users[0], null, 2));
+    expect(printed()).toEqual([]);
+  });
+});
@@ -0,0 +1,151 @@
+import { describe, expect, it } from 'bun:test';
+import { createPadrone, type PadronePlugin, PadroneUnknownCommandError } from 'padrone';
+import * as z from 'zod/v4';
+import { createConsoleMocker } from './console-mocker.ts';
+
+describe('Plugins', () => {
+  createConsoleMocker();
+
+  const createProgram = () =>
+    createPadrone('test')
+      .configure({ version: '1.0.0' })
+      .options(
+        z.object({
+          verbose: z
+            .boolean()
+            .optional()
+            .meta({ alias: ['v'] }),
+        }),
+      )
+      .action((options) => options)
+      .command('add', (c) =>
+        c
+          .options(
+            z.object({
+              count: z.coerce
+                .number()
+                .optional()
+                .meta({ alias: ['c'] }),
+            }),
+          )
+          .action((options) => options.count),
+      );
+
+  describe('built-in plugins', () => {
+    it('should handle their flags by default', () => {
+      expect(createProgram().cli('--version').result as unknown).toBe('1.0.0');
+      expect(createProgram().cli('-V').result as unknown).toBe('1.0.0');
+      expect(createProgram().cli('--help').result as unknown).toContain('Usage: test');
+    });
+
+    it('should leave the short flags that a command aliases itself to its options', () => {
+      const program = createProgram().command('serve', (c) =>
+        c.options(z.object({ host: z.string().meta({ alias: ['h'] }) })).action((options) => options.host),
+      );
+
+      expect(program.cli('-v').options as unknown).toEqual({ verbose: true });
+      expect(program.cli('serve -h localhost').result as unknown).toBe('localhost');
+      expect(program.cli('serve --help').result as unknown).toContain('Usage: test serve');
+      expect(program.cli('add -h').result as unknown).toContain('Usage: test add');
+    });
+
+    it('should free the short flags of a re-aliased plugin for the options of the program', () => {
+      const program = createProgram().plugin('version', { flags: { version: ['V'] } });
+
+      expect(program.cli('-v').options as unknown).toEqual({ verbose: true });
+      expect(program.cli('-V').result as unknown).toBe('1.0.0');
+      expect(program.cli('--version').result as unknown).toBe('1.0.0');
+    });
+
+    it('should not read the config file from a flag that was re-aliased', () => {
+      const program = createProgram().plugin('config', { flags: { config: [] } });
+
+      expect(program.cli('add -c 3').result).toBe(3);
+    });
+
+    it('should run the commands of a disabled plugin as unknown commands', () => {
+      const program = createProgram()
+        .command('build', (c) => c)
+        .plugin('completion', false)
+        .plugin('help', false);
+
+      expect(() => program.cli('build completion')).toThrow(PadroneUnknownCommandError);
+      expect(program.cli('--help').options as unknown).toEqual({});
+    });
+
+    it('should leave out the flags of a disabled plugin from the completion scripts', () => {
+      const program = createProgram().plugin('version', false);
+
+      const script = program.cli('completion bash').result as unknown;
+
+      expect(script).toContain('local options="--help --output --verbose -v --count -c"');
+    });
+
+    it('should throw when configuring a plugin that is not installed', () => {
+      expect(() => createProgram().plugin('telemetry', false)).toThrow('Plugin "telemetry" is not installed');
+    });
+
+    it('should be replaced by a plugin with the same name', () => {
+      const program = createProgram().plugin({ name: 'version', command: 'version', run: () => 'custom version' });
+
+      expect(program.cli('version').result as unknown).toBe('custom version');
+      expect(program.cli('-v').options as unknown).toEqual({ verbose: true });
+    });
+  });
+
+  describe('third-party plugins', () => {
+    it('should run a plugin by its command, unless the program has a command with the same name', () => {
+      const docs: PadronePlugin = { name: 'docs', command: 'docs', run: ({ terms }) => `docs for ${terms.join(' ')}` };
+
+      expect(createProgram().plugin(docs).cli('docs add').result as unknown).toBe('docs for add');
+      expect(
+        createProgram()
+          .command('docs', (c) => c.action(() => 'own docs'))
+          .plugin(docs)
+          .cli('docs add').result,
+      ).toBe('own docs');
+    });
+
+    it('should run a plugin by its flags and offer the flags in the completion scripts', () => {
+      const whoami: PadronePlugin = {
+        name: 'whoami',
+        flags: { whoami: { aliases: ['W'], description: 'Print the current user' } },
+        run: ({ flags, terms }) => (flags.whoami ? `alice running "${terms.join(' ')}"` : undefined),
+      };
+      const program = createProgram().plugin(whoami);
+
+      expect(program.cli('add -W').result as unknown).toBe('alice running "add"');
+      expect(program.cli('completion zsh').result as unknown).toContain("'--whoami[Print the current user]'");
+    });
+
+    it('should let the command run when the plugin returns undefined', () => {
+      const program = createProgram().plugin({ name: 'noop', flags: { dry: {} }, run: () => undefined });
+
+      expect(program.cli('add --count=2 --dry').result).toBe(2);
+    });
+
+    it('should run the middleware of plugins around every command, before the middleware of the commands', async () => {
+      const calls: string[] = [];
+      const telemetry: PadronePlugin = {
+        name: 'telemetry',
+        middleware: {
+          before: ({ command }) => {
+            calls.push(`telemetry ${command.path}`);
+          },
+          after: ({ result }) => {
+            calls.push(`telemetry result ${result}`);
+          },
+        },
+      };
+      const program = createPadrone('test')
+        .use({ before: () => void calls.push('program') })
+        .command('add', (c) => c.options(z.object({ count: z.coerce.number() })).action((options) => options.count))
+        .plugin(telemetry);
+
+      program.cli('add --count=4');
+      program.run('add', { count: 5 });
+
+      expect(calls).toEqual(['telemetry add', 'program', 'telemetry result 4', 'telemetry add', 'program', 'telemetry result 5']);
+    });
+  });
+});
@@ -0,0 +1,149 @@
+import { describe, expect, it } from 'bun:test';
+import { mkdtempSync, readFileSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { createPadrone } from 'padrone';
+import * as z from 'zod/v4';
+import { createStreams } from './stream-mocker.ts';
+
+const createProgram = () =>
+  createPadrone('test')
+    .options(z.object({ verbose: z.boolean().optional() }), { options: { verbose: { global: true } } })
+    .command('status', (c) => c.action((_, ctx) => `Verbose: ${ctx.parentOptions?.verbose ?? false}`))
+    .command('use', (c) =>
+      c.options(z.object({ project: z.string() }), { positional: ['project'] }).action((options, ctx) => {
+        ctx.session.project = options.project;
+        return `Using ${options.project}`;
+      }),
+    )
+    .command('deploy', (c) =>
+      c
+        .options(z.object({ env: z.enum(['dev', 'prod']).meta({ alias: 'e' }), force: z.boolean().optional() }))
+        .action((options, ctx) => `Deployed ${ctx.session.project} to ${options.env}`),
+    )
+    .command('wait', (c) =>
+      c.action(
+        (_, ctx) =>
+          new Promise<string>((resolve) => {
+            ctx.signal.addEventListener('abort', () => resolve('aborted'));
+          }),
+      ),
+    );
+
+describe('REPL', () => {
+  it('should run each line as a command and resolve with the results', async () => {
+    const streams = createStreams(['use web', 'deploy --env prod']);
+    const results = await createProgram().repl(streams);
+
+    expect(results.map((r) => r.result)).toEqual(['Using web', 'Deployed web to prod']);
+    expect(results[1]?.command.name).toBe('deploy');
+    expect(streams.written()).toContain('test> ');
+  });
+
+  it('should share the session state between commands only', async () => {
+    const program = createProgram();
+    await program.repl(createStreams(['use web']));
+
+    const results = await program.repl(createStreams(['deploy -e dev']));
+    expect(results[0]?.result).toBe('Deployed undefined to dev');
+  });
+
+  it('should print errors and keep going', async () => {
+    const streams = createStreams(['deploy --env staging', 'unknown', 'help --format xml', 'use api']);
+    const results = await createProgram().repl(streams);
+
+    expect(results.map((r) => r.result)).toEqual(['Using api']);
+    expect(streams.written()).toContain('Invalid value "xml" for --format');
+    expect(streams.written()).toContain('Invalid options for command "deploy":');
+    expect(streams.written()).toContain('Run "deploy --help" for usage.');
+  });
+
+  it('should print help to the output', async () => {
+    const streams = createStreams(['help deploy']);
+    const results = await createProgram().repl(streams);
+
+    expect(results).toEqual([]);
+    expect(streams.written()).toContain('--env');
+  });
+
+  it('should end the session on exit', async () => {
+    const streams = createStreams(['use web', 'exit', 'use api'], false);
+    const results = await createProgram().repl(streams);
+
+    expect(results.map((r) => r.result)).toEqual(['Using web']);
+  });
+
+  it('should run a command named exit when the program defines one', async () => {
+    const program = createPadrone('test').command('exit', (c) => c.action(() => 'bye'));
+
+    expect((await program.repl(createStreams(['exit']))).map((r) => r.result)).toEqual(['bye']);
+  });
+
+  it('should use a custom prompt', async () => {
+    const streams = createStreams([]);
+    await createProgram().repl({ ...streams, prompt: '$ ' });
+
+    expect(streams.written()).toBe('$ ');
+  });
+
+  it('should abort the running command and end the session with the signal option', async () => {
+    const controller = new AbortController();
+    const streams = createStreams(['wait'], false);
+    const promise = createProgram().repl({ ...streams, signal: controller.signal });
+
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    controller.abort();
+
+    expect((await promise).map((r) => r.result)).toEqual(['aborted']);
+  });
+
+  it('should persist the history to a file', async () => {
+    const historyFile = join(mkdtempSync(join(tmpdir(), 'padrone-repl-')), 'history');
+    writeFileSync(historyFile, 'use old\n');
+    await createProgram().repl({ ...createStreams(['use web', '', 'exit']), historyFile });
+
+    expect(readFileSync(historyFile, 'utf-8')).toBe('use old\nuse web\nexit\n');
+  });
+
+  it('should ask for confirmation of commands that need approval on the same input', async () => {
+    const program = createPadrone('test').command('drop', (c) => c.configure({ needsApproval: true }).action(() => 'dropped'));
+    const streams = createStreams(['drop', 'n', 'drop', 'y', 'drop --yes']);
+    const results = await program.repl(streams);
+
+    expect(results.map((r) => r.result)).toEqual(['dropped', 'dropped']);
+    expect(streams.written()).toContain('Command "drop" was not confirmed');
+  });
+
+  describe('completion', () => {
+    /**
+     * Types the text key by key into a REPL running in terminal mode, so that tabs trigger completion.
+     */
+    async function typeInTerminal(text: string) {
+      const streams = createStreams([], false);
+      Object.assign(streams.output, { isTTY: true, columns: 80 });
+      const promise = createProgram().repl(streams);
+
+      for (const key of text) {
+        streams.input.write(key);
+        await new Promise((resolve) => setTimeout(resolve, 1));
+      }
+      streams.input.end();
+      return promise;
+    }
+
+    it('should complete command names', async () => {
+      const results = await typeInTerminal('us\t web\r');
+      expect(results.map((r) => r.result)).toEqual(['Using web']);
+    });
+
+    it('should complete option names of the selected command', async () => {
+      const results = await typeInTerminal('deploy --e\t prod\r');
+      expect(results.map((r) => r.result)).toEqual(['Deployed undefined to prod']);
+    });
+
+    it('should complete global options of the parents of the selected command', async () => {
+      const results = await typeInTerminal('status --verb\t\r');
+      expect(results.map((r) => r.result)).toEqual(['Verbose: true']);
+    });
+  });
+});
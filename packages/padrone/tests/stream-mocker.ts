@@ -0,0 +1,20 @@
+import { PassThrough } from 'node:stream';
+
+/**
+ * Creates streams with the lines already written to the input, and collects what is written to the output.
+ * @param end - Whether the input ends after the lines, like a closed stdin
+ */
+export function createStreams(lines: string[], end = true) {
+  const input = new PassThrough();
+  const text = lines.map((line) => `${line}\n`).join('');
+  if (end) input.end(text);
+  else input.write(text);
+
+  const output = new PassThrough();
+  let written = '';
+  output.on('data', (chunk) => {
+    written += chunk;
+  });
+
+  return { input, output, written: () => written };
+}